@@ -2,20 +2,78 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import {
+  type KeyholeFace,
+  type ParamIssue,
   type ShapeParams,
-  normalizeParamsForCad,
+  type StandoffPattern,
+  type WallCutout,
+  defaultCutout,
+  dividerLayout,
+  hasDividers,
+  hasLidLeadIn,
+  hasStackingRim,
+  hingeGeometry,
+  isGridfinity,
+  outsideAllowance,
   parseParams,
   paramsToSearch,
-  roundTo
+  resolveThickness,
+  roundTo,
+  slideLidHeadroom,
+  standoffPresets,
+  threadGeometry,
+  validateParams
 } from "./lib/params";
-import { buildDebugInnerTool, buildStepAndPreviewMesh, type PreviewMeshes } from "./lib/cad";
+import { polygonExtents } from "./lib/polygon";
+import { BatchCsvError, readBatchCsv, type BatchCsv } from "./lib/batch";
+import { type BuildStage, type PreviewMeshes, type StlLayout } from "./lib/cad";
+import { CadBuildError, isAbortError, runCadJob } from "./lib/cadClient";
 import { downloadBlob } from "./lib/download";
+import {
+  type SavedDesign,
+  createDesign,
+  deleteDesign,
+  duplicateDesign,
+  exportLibrary,
+  importLibrary,
+  listDesigns,
+  renameDesign,
+  updateDesign
+} from "./lib/library";
 
 const numberInput =
   "w-full rounded-2xl border border-sand/80 bg-white/80 px-4 py-3 text-sm shadow-sm shadow-sand/40 focus:border-ocean focus:outline-none";
 
 const labelClass = "text-xs uppercase tracking-[0.16em] text-ocean/70";
 
+const issueClasses: Record<ParamIssue["severity"], string> = {
+  error: "text-xs text-red-600",
+  warning: "text-xs text-amber-700"
+};
+
+function FieldIssues({ issues }: { issues: ParamIssue[] }) {
+  if (!issues.length) {
+    return null;
+  }
+  return (
+    <div className="grid gap-1">
+      {issues.map((issue) => (
+        <p key={issue.message} className={issueClasses[issue.severity]}>
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+const stageLabels: Record<BuildStage, string> = {
+  init: "Loading CAD...",
+  box: "Building box...",
+  lid: "Building lid...",
+  mesh: "Meshing...",
+  step: "Writing STEP..."
+};
+
 export default function App() {
   const [params, setParams] = useState<ShapeParams>(() =>
     parseParams(window.location.search)
@@ -24,20 +82,48 @@ export default function App() {
   const [debugLog, setDebugLog] = useState<string[]>([]);
   const [previewMesh, setPreviewMesh] = useState<PreviewMeshes | null>(null);
   const [stepData, setStepData] = useState<Uint8Array | null>(null);
-  const [autoStatus, setAutoStatus] = useState<"idle" | "loading" | "error">(
+  const [autoStatus, setAutoStatus] = useState<
+    "idle" | "loading" | "error" | "invalid"
+  >("idle");
+  const [buildStage, setBuildStage] = useState<BuildStage | null>(null);
+  const [stlLayout, setStlLayout] = useState<StlLayout>("separate");
+  const [exportStatus, setExportStatus] = useState<"idle" | "stl" | "3mf" | "batch">(
     "idle"
   );
   const [showBox, setShowBox] = useState(true);
   const [showLid, setShowLid] = useState(true);
+  const [showStacked, setShowStacked] = useState(false);
+  const [designs, setDesigns] = useState<SavedDesign[]>([]);
+  const [openDesignId, setOpenDesignId] = useState<string | null>(null);
+  const [designName, setDesignName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [libraryMessage, setLibraryMessage] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const [batch, setBatch] = useState<{ fileName: string; csv: BatchCsv } | null>(null);
+  const [batchStl, setBatchStl] = useState(false);
+  const [batchMessage, setBatchMessage] = useState<string | null>(null);
+  const batchRef = useRef<HTMLInputElement | null>(null);
   const previewRef = useRef<HTMLDivElement | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
   const modelGroupRef = useRef<THREE.Group | null>(null);
-  const meshRefs = useRef<{ box?: THREE.Object3D; lid?: THREE.Object3D }>({});
+  const meshRefs = useRef<{
+    box?: THREE.Object3D;
+    lid?: THREE.Object3D;
+    stacked?: THREE.Object3D;
+  }>({});
 
-  const effectiveParams = useMemo(() => normalizeParamsForCad(params), [params]);
+  const validation = useMemo(() => validateParams(params), [params]);
+  const effectiveParams = validation.params;
+
+  const issuesFor = (field: keyof ShapeParams) =>
+    validation.issues.filter((issue) => issue.field === field);
+  const inputClass = (field: keyof ShapeParams) =>
+    issuesFor(field).some((issue) => issue.severity === "error")
+      ? numberInput.replace("border-sand/80", "border-red-400")
+      : numberInput;
 
   const didInitCamera = useRef(false);
 
@@ -55,23 +141,66 @@ export default function App() {
 
 
   const outerDims = useMemo(() => {
-    const t =
-      effectiveParams.thicknessMode === "uniform" ? effectiveParams.thickness : null;
-    const wall = t ?? effectiveParams.wallThickness;
-    const bottom = t ?? effectiveParams.bottomThickness;
+    const { wall, bottom, top: lidTop } = resolveThickness(effectiveParams);
     const top = 0;
-    const width = effectiveParams.insideWidth + wall * 2;
-    const depth = effectiveParams.insideDepth + wall * 2;
-    const height = effectiveParams.insideHeight + bottom + top;
+    const isCylinder = effectiveParams.shape === "cylinder";
+    let width =
+      (isCylinder ? effectiveParams.insideDiameter : effectiveParams.insideWidth) +
+      wall * 2;
+    let depth =
+      (isCylinder ? effectiveParams.insideDiameter : effectiveParams.insideDepth) +
+      wall * 2;
+    const acrossFlats = effectiveParams.insideAcrossFlats + wall * 2;
+    const radius = effectiveParams.includeInsideRadius
+      ? effectiveParams.insideRadius + wall
+      : 0;
+    // The extents need a valid side count; until then show the across-flats
+    // size.
+    if (effectiveParams.shape === "polygon") {
+      const extents = validation.hasErrors
+        ? { width: acrossFlats, depth: acrossFlats }
+        : polygonExtents(effectiveParams.polygonSides, acrossFlats, radius);
+      width = extents.width;
+      depth = extents.depth;
+    }
+    const headroom =
+      effectiveParams.includeLid && effectiveParams.lidStyle === "slide"
+        ? slideLidHeadroom(effectiveParams)
+        : 0;
+    // The screw thread stands proud of the cylinder wall.
+    if (effectiveParams.includeLid && effectiveParams.lidStyle === "screw") {
+      width += effectiveParams.threadDepth * 2;
+      depth += effectiveParams.threadDepth * 2;
+    }
+    // Hinge knuckles stand out behind the hinge wall.
+    if (effectiveParams.includeLid && effectiveParams.lidStyle === "hinge") {
+      const hinge = hingeGeometry(effectiveParams);
+      if (hinge.alongWidth) {
+        depth += hinge.protrusion;
+      } else {
+        width += hinge.protrusion;
+      }
+    }
+    const height = effectiveParams.insideHeight + bottom + top + headroom;
+    // Lids other than the sliding one finish on top of the rim, with the
+    // stacking rim standing on top of that.
+    const stackingRim = hasStackingRim(effectiveParams) ? effectiveParams.stackStepHeight : 0;
+    const closedHeight =
+      effectiveParams.includeLid && effectiveParams.lidStyle !== "slide"
+        ? height + lidTop + stackingRim
+        : height;
     return {
       width: roundTo(width),
       depth: roundTo(depth),
       height: roundTo(height),
+      closedHeight: roundTo(closedHeight),
+      acrossFlats: roundTo(acrossFlats),
+      radius,
       wall,
       bottom,
       top
     };
-  }, [effectiveParams]);
+  }, [effectiveParams, validation]);
 
   const lidDims = useMemo(() => {
     if (!effectiveParams.includeLid) {
@@ -81,17 +210,122 @@ export default function App() {
       effectiveParams.thicknessMode === "uniform" ? effectiveParams.thickness : null;
     const wall = t ?? effectiveParams.wallThickness;
     const top = t ?? effectiveParams.topThickness;
-    const width = outerDims.width + effectiveParams.clearance * 2 + wall * 2;
-    const depth = outerDims.depth + effectiveParams.clearance * 2 + wall * 2;
+    if (effectiveParams.lidStyle === "slide") {
+      const groove = effectiveParams.slideGrooveDepth;
+      const clearance = effectiveParams.clearance;
+      const alongWidth = effectiveParams.slideAxis === "width";
+      const along = outerDims.wall + groove - clearance;
+      const across = (groove - clearance) * 2;
+      return {
+        width: roundTo(effectiveParams.insideWidth + (alongWidth ? along : across)),
+        depth: roundTo(effectiveParams.insideDepth + (alongWidth ? across : along)),
+        height: roundTo(slideLidHeadroom(effectiveParams) - clearance / 2),
+        acrossFlats: outerDims.acrossFlats,
+        wall,
+        top
+      };
+    }
+    if (effectiveParams.lidStyle === "hinge") {
+      // Same footprint as the box with its knuckles, from the bottom of the
+      // knuckles to the top of the lid.
+      const hinge = hingeGeometry(effectiveParams);
+      return {
+        width: outerDims.width,
+        depth: outerDims.depth,
+        height: roundTo(hinge.rimZ + top - hinge.axisZ + hinge.knuckleRadius),
+        acrossFlats: outerDims.acrossFlats,
+        wall,
+        top
+      };
+    }
+    if (effectiveParams.lidStyle === "screw") {
+      const thread = threadGeometry(effectiveParams);
+      const diameter = roundTo((thread.lidInnerRadius + wall) * 2);
+      return {
+        width: diameter,
+        depth: diameter,
+        height: roundTo(thread.skirt + top),
+        acrossFlats: outerDims.acrossFlats,
+        wall,
+        top
+      };
+    }
+    if (effectiveParams.lidStyle === "plug") {
+      return {
+        width: outerDims.width,
+        depth: outerDims.depth,
+        height: roundTo(top + effectiveParams.lipDepth),
+        acrossFlats: outerDims.acrossFlats,
+        wall,
+        top
+      };
+    }
+    let width = outerDims.width + effectiveParams.clearance * 2 + wall * 2;
+    let depth = outerDims.depth + effectiveParams.clearance * 2 + wall * 2;
+    const acrossFlats = outerDims.acrossFlats + effectiveParams.clearance * 2 + wall * 2;
+    if (effectiveParams.shape === "polygon") {
+      const radius = effectiveParams.includeInsideRadius
+        ? outerDims.radius + effectiveParams.clearance + wall
+        : 0;
+      const extents = validation.hasErrors
+        ? { width: acrossFlats, depth: acrossFlats }
+        : polygonExtents(effectiveParams.polygonSides, acrossFlats, radius);
+      width = extents.width;
+      depth = extents.depth;
+    }
     const height = outerDims.height;
     return {
       width: roundTo(width),
       depth: roundTo(depth),
       height: roundTo(height),
+      acrossFlats: roundTo(acrossFlats),
       wall,
       top
     };
-  }, [effectiveParams, outerDims]);
+  }, [effectiveParams, outerDims, validation]);
+
+  // Gridfinity bins derive their inside size from grid units and outside
+  // sizing from the outer size; the inside inputs then show the derived
+  // values instead of the typed ones.
+  const gridSized = isGridfinity(params);
+  const derivedSize = gridSized || params.sizingMode === "outside";
+  const sizeValue = (
+    field:
+      | "insideWidth"
+      | "insideDepth"
+      | "insideHeight"
+      | "insideDiameter"
+      | "insideAcrossFlats"
+  ) => (derivedSize ? effectiveParams[field] : params[field]);
+
+  // Outside sizing starts from the current outer size so the part keeps its
+  // size when the mode changes.
+  const switchToOutside = () => {
+    const allowance = outsideAllowance(effectiveParams);
+    setParams((prev) => ({
+      ...prev,
+      sizingMode: "outside",
+      outsideWidth: roundTo(effectiveParams.insideWidth + allowance.width),
+      outsideDepth: roundTo(effectiveParams.insideDepth + allowance.depth),
+      outsideHeight: roundTo(effectiveParams.insideHeight + allowance.height),
+      outsideDiameter: roundTo(effectiveParams.insideDiameter + allowance.width),
+      outsideAcrossFlats: roundTo(effectiveParams.insideAcrossFlats + allowance.width)
+    }));
+  };
+
+  const compartments = useMemo(() => {
+    if (!hasDividers(effectiveParams) || validation.hasErrors) {
+      return null;
+    }
+    const layout = dividerLayout(effectiveParams);
+    return {
+      columns: layout.columns.map((column) => roundTo(column.size, 2)),
+      rows: layout.rows.map((row) => roundTo(row.size, 2)),
+      height: roundTo(layout.height, 2)
+    };
+  }, [effectiveParams, validation]);
+
+  const canExport = autoStatus !== "loading" && autoStatus !== "invalid";
 
   const handleDownload = () => {
     setError(null);
@@ -102,33 +336,169 @@ export default function App() {
     downloadBlob(stepData, "box.step");
   };
 
+  const handleDownloadStl = async () => {
+    setError(null);
+    setExportStatus("stl");
+    try {
+      const files = await runCadJob({ kind: "stl", params, layout: stlLayout });
+      files.forEach((file) => downloadBlob(file.data, file.filename));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "STL export failed.");
+    } finally {
+      setExportStatus("idle");
+    }
+  };
+
+  const handleDownload3mf = async () => {
+    setError(null);
+    setExportStatus("3mf");
+    try {
+      const data = await runCadJob({ kind: "3mf", params });
+      downloadBlob(data, "box.3mf");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "3MF export failed.");
+    } finally {
+      setExportStatus("idle");
+    }
+  };
+
+  const handleChooseBatch = async (file: File) => {
+    setBatch(null);
+    setBatchMessage(null);
+    try {
+      setBatch({ fileName: file.name, csv: readBatchCsv(await file.text()) });
+    } catch (err) {
+      setBatchMessage(
+        err instanceof BatchCsvError ? err.message : "The CSV file could not be read."
+      );
+    }
+  };
+
+  // Rows that fail are listed in report.txt inside the zip, so only a failure
+  // of the whole job is shown here.
+  const handleBuildBatch = async () => {
+    if (!batch) {
+      return;
+    }
+    setBatchMessage(null);
+    setExportStatus("batch");
+    try {
+      const data = await runCadJob({
+        kind: "batch",
+        rows: batch.csv.rows,
+        stl: batchStl,
+        layout: stlLayout
+      });
+      downloadBlob(data, "boxes.zip");
+    } catch (err) {
+      setBatchMessage(err instanceof Error ? err.message : "Batch export failed.");
+    } finally {
+      setExportStatus("idle");
+    }
+  };
+
+  // Library calls reload the list and report through one message line under
+  // it; an action resolving to a string has that shown as its result.
+  const runLibrary = async (action: () => Promise<unknown>) => {
+    setLibraryMessage(null);
+    try {
+      const result = await action();
+      setDesigns(await listDesigns());
+      if (typeof result === "string") {
+        setLibraryMessage(result);
+      }
+    } catch (err) {
+      setLibraryMessage(err instanceof Error ? err.message : "The design library failed.");
+    }
+  };
+
   useEffect(() => {
-    setAutoStatus("loading");
+    listDesigns()
+      .then(setDesigns)
+      .catch(() => setLibraryMessage("The design library is not available in this browser."));
+  }, []);
+
+  // Small copy of the current preview. The canvas is drawn again right before
+  // copying because WebGL clears it once a frame has been shown.
+  const captureThumbnail = () => {
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const camera = cameraRef.current;
+    if (!renderer || !scene || !camera) {
+      return null;
+    }
+    renderer.render(scene, camera);
+    const source = renderer.domElement;
+    const canvas = document.createElement("canvas");
+    canvas.width = 160;
+    canvas.height = Math.round((160 * source.height) / source.width) || 100;
+    canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+  };
+
+  const handleSaveDesign = () =>
+    runLibrary(async () => {
+      const name = designName.trim() || "Untitled box";
+      const design = await createDesign(name, params, captureThumbnail());
+      setOpenDesignId(design.id);
+      setDesignName("");
+      return `Saved "${name}".`;
+    });
+
+  const handleOpenDesign = (design: SavedDesign) => {
+    setParams(design.params);
+    setOpenDesignId(design.id);
+    setLibraryMessage(null);
+  };
+
+  const handleExportLibrary = () => {
+    downloadBlob(new TextEncoder().encode(exportLibrary(designs)), "box-designs.json");
+  };
+
+  const handleImportLibrary = (file: File) =>
+    runLibrary(async () => {
+      const count = await importLibrary(await file.text());
+      return `Imported ${count} design${count === 1 ? "" : "s"}.`;
+    });
+
+  useEffect(() => {
+    setBuildStage(null);
     setError(null);
+    if (validation.hasErrors) {
+      setAutoStatus("invalid");
+      return;
+    }
+    setAutoStatus("loading");
+    const controller = new AbortController();
     const handle = window.setTimeout(async () => {
       try {
-        const result = await buildStepAndPreviewMesh(params);
+        const result = await runCadJob(
+          { kind: "preview", params },
+          { signal: controller.signal, onProgress: setBuildStage }
+        );
         setPreviewMesh(result.mesh);
         setStepData(result.step);
         setAutoStatus("idle");
       } catch (err) {
-        const win = window as unknown as {
-          __cadDebug?: Array<{ label: string; payload?: unknown; time: string }>;
-        };
-        if (win.__cadDebug?.length) {
-          const lines = win.__cadDebug.slice(-40).map((entry) => {
-            const payload =
-              entry.payload !== undefined ? ` ${JSON.stringify(entry.payload)}` : "";
-            return `${entry.time} ${entry.label}${payload}`;
-          });
-          setDebugLog(lines);
+        if (isAbortError(err)) {
+          return;
+        }
+        if (err instanceof CadBuildError && err.debugLog.length) {
+          setDebugLog(err.debugLog);
         }
         setAutoStatus("error");
         setError(err instanceof Error ? err.message : "Preview failed.");
+      } finally {
+        if (!controller.signal.aborted) {
+          setBuildStage(null);
+        }
       }
-    }, 400);
-    return () => window.clearTimeout(handle);
-  }, [params]);
+    }, 150);
+    return () => {
+      window.clearTimeout(handle);
+      controller.abort();
+    };
+  }, [params, validation]);
 
   useEffect(() => {
     const container = previewRef.current;
@@ -233,6 +603,21 @@ export default function App() {
       }
     }
 
+    // A second copy standing on the first, added after framing so the camera
+    // stays on a single box.
+    if (previewMesh.stackHeight !== undefined) {
+      const stacked = new THREE.Group();
+      stacked.add(boxGroup.group.clone());
+      if (meshRefs.current.lid) {
+        stacked.add(meshRefs.current.lid.clone());
+      }
+      stacked.position.z = previewMesh.stackHeight;
+      modelGroup.add(stacked);
+      meshRefs.current.stacked = stacked;
+    } else {
+      meshRefs.current.stacked = undefined;
+    }
+
     let frameId = 0;
     const onFrame = () => {
       controls.update();
@@ -260,6 +645,9 @@ export default function App() {
     if (meshRefs.current.lid) {
       meshRefs.current.lid.visible = showLid;
     }
+    if (meshRefs.current.stacked) {
+      meshRefs.current.stacked.visible = showStacked;
+    }
 
     return () => {
       window.removeEventListener("resize", handleResize);
@@ -289,12 +677,23 @@ export default function App() {
     if (lid) {
       lid.visible = showLid;
     }
-  }, [showBox, showLid]);
+    const stacked = meshRefs.current.stacked;
+    if (stacked) {
+      stacked.visible = showStacked;
+    }
+  }, [showBox, showLid, showStacked]);
 
   const set = <K extends keyof ShapeParams>(key: K, value: ShapeParams[K]) => {
     setParams((prev) => ({ ...prev, [key]: value }));
   };
 
+  const setCutout = (index: number, patch: Partial<WallCutout>) => {
+    setParams((prev) => ({
+      ...prev,
+      cutouts: prev.cutouts.map((cutout, i) => (i === index ? { ...cutout, ...patch } : cutout))
+    }));
+  };
+
 
   return (
     <div className="min-h-screen px-6 py-10 text-ink">
@@ -308,6 +707,45 @@ export default function App() {
         <div className="grid gap-8 lg:grid-cols-[1.1fr_0.9fr]">
           <section className="rounded-[32px] border border-sand/80 bg-white/70 p-8 shadow-soft">
             <div className="grid gap-6">
+              <div className="grid gap-3">
+                <label className={labelClass}>Shape</label>
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    className={`rounded-full px-5 py-2 text-sm font-medium transition ${
+                      params.shape === "box"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("shape", "box")}
+                    type="button"
+                  >
+                    Box
+                  </button>
+                  <button
+                    className={`rounded-full px-5 py-2 text-sm font-medium transition ${
+                      params.shape === "cylinder"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("shape", "cylinder")}
+                    type="button"
+                  >
+                    Cylinder
+                  </button>
+                  <button
+                    className={`rounded-full px-5 py-2 text-sm font-medium transition ${
+                      params.shape === "polygon"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("shape", "polygon")}
+                    type="button"
+                  >
+                    Polygon
+                  </button>
+                </div>
+              </div>
+
               <div className="grid gap-3">
                 <label className={labelClass}>Lid</label>
                 <div className="flex flex-wrap gap-3">
@@ -334,189 +772,1050 @@ export default function App() {
                     No lid
                   </button>
                 </div>
-                <p className="text-xs text-ink/60">
-                  Lids are built as full-height sleeves.
-                </p>
-              </div>
-
-              <div className="grid gap-4 md:grid-cols-3">
-                <div className="grid gap-2">
-                  <label className={labelClass}>Inside Width (mm)</label>
-                  <input
-                    className={numberInput}
-                    type="number"
-                    min={1}
-                    step={0.1}
-                    value={params.insideWidth}
-                    onChange={(event) =>
-                      set("insideWidth", Number(event.target.value))
-                    }
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <label className={labelClass}>Inside Depth (mm)</label>
-                  <input
-                    className={numberInput}
-                    type="number"
-                    min={1}
-                    step={0.1}
-                    value={params.insideDepth}
-                    onChange={(event) =>
-                      set("insideDepth", Number(event.target.value))
-                    }
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <label className={labelClass}>Inside Height (mm)</label>
-                  <input
-                    className={numberInput}
-                    type="number"
-                    min={1}
-                    step={0.1}
-                    value={params.insideHeight}
-                    onChange={(event) =>
-                      set("insideHeight", Number(event.target.value))
-                    }
-                  />
-                </div>
-              </div>
-
-              <div className="grid gap-4 md:grid-cols-2">
-                <div className="grid gap-2">
-                <label className={labelClass}>Inside Radius</label>
+                {params.includeLid && (
                   <div className="flex flex-wrap gap-3">
                     <button
                       className={`rounded-full px-4 py-2 text-sm font-medium transition ${
-                        params.includeInsideRadius
+                        params.lidStyle === "sleeve"
                           ? "bg-ocean text-white"
                           : "border border-sand/80 text-ink"
                       }`}
-                      onClick={() => set("includeInsideRadius", true)}
+                      onClick={() => set("lidStyle", "sleeve")}
                       type="button"
                     >
-                      Rounded
+                      Sleeve
                     </button>
                     <button
                       className={`rounded-full px-4 py-2 text-sm font-medium transition ${
-                        !params.includeInsideRadius
+                        params.lidStyle === "plug"
                           ? "bg-ocean text-white"
                           : "border border-sand/80 text-ink"
                       }`}
-                      onClick={() => set("includeInsideRadius", false)}
+                      onClick={() => set("lidStyle", "plug")}
                       type="button"
                     >
-                      Square
+                      Plug
                     </button>
+                    {params.shape === "box" && (
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.lidStyle === "slide"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("lidStyle", "slide")}
+                        type="button"
+                      >
+                        Slide
+                      </button>
+                    )}
+                    {params.shape === "cylinder" && (
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.lidStyle === "screw"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("lidStyle", "screw")}
+                        type="button"
+                      >
+                        Screw
+                      </button>
+                    )}
+                    {params.shape === "box" && (
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.lidStyle === "hinge"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("lidStyle", "hinge")}
+                        type="button"
+                      >
+                        Hinge
+                      </button>
+                    )}
                   </div>
-                </div>
-                <div className="grid gap-2">
-                  <label className={labelClass}>Inside Radius (mm)</label>
-                  <input
-                    className={`${numberInput} ${
-                      params.includeInsideRadius ? "" : "opacity-50"
-                    }`}
-                    type="number"
-                    min={0}
-                    step={0.1}
-                    value={params.insideRadius}
-                    disabled={!params.includeInsideRadius}
-                    onChange={(event) =>
-                      set("insideRadius", Number(event.target.value))
-                    }
-                  />
-                </div>
-              </div>
-
-              <div className="grid gap-4">
-                <label className={labelClass}>Wall Thickness</label>
-                <div className="flex flex-wrap gap-3">
-                  <button
-                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
-                      params.thicknessMode === "uniform"
-                        ? "bg-ocean text-white"
-                        : "border border-sand/80 text-ink"
-                    }`}
-                    onClick={() => set("thicknessMode", "uniform")}
-                    type="button"
-                  >
-                    Uniform
-                  </button>
-                  <button
-                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
-                      params.thicknessMode === "custom"
-                        ? "bg-ocean text-white"
-                        : "border border-sand/80 text-ink"
-                    }`}
-                    onClick={() => set("thicknessMode", "custom")}
-                    type="button"
-                  >
-                    Custom
-                  </button>
-                </div>
-
-                {params.thicknessMode === "uniform" ? (
-                  <div className="grid gap-2 md:max-w-xs">
-                    <label className={labelClass}>Uniform (mm)</label>
-                    <input
-                      className={numberInput}
-                      type="number"
-                      min={0.4}
-                      step={0.01}
-                      value={params.thickness}
-                      onChange={(event) =>
-                        set("thickness", Number(event.target.value))
-                      }
-                    />
+                )}
+                <p className="text-xs text-ink/60">
+                  {params.lidStyle === "plug"
+                    ? "Plug lids are a flat cap with a lip that drops inside the opening."
+                    : params.lidStyle === "slide"
+                      ? "Sliding lids run in grooves cut into the walls, entering through a lowered end wall."
+                      : params.lidStyle === "hinge"
+                        ? "Hinged lids are a flat cap joined to the box by knuckles along one wall."
+                        : params.lidStyle === "screw"
+                          ? "Screw-top lids thread onto a matching thread round the top of the wall."
+                          : "Lids are built as full-height sleeves."}
+                </p>
+                <FieldIssues issues={issuesFor("lidStyle")} />
+                {params.includeLid && params.lidStyle === "slide" && (
+                  <div className="grid gap-4">
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.slideGrooveProfile === "rect"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("slideGrooveProfile", "rect")}
+                        type="button"
+                      >
+                        Rectangular
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.slideGrooveProfile === "dovetail"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("slideGrooveProfile", "dovetail")}
+                        type="button"
+                      >
+                        Dovetail
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.slideAxis === "width"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("slideAxis", "width")}
+                        type="button"
+                      >
+                        Slide along width
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.slideAxis === "depth"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("slideAxis", "depth")}
+                        type="button"
+                      >
+                        Slide along depth
+                      </button>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Groove Depth (mm)</label>
+                        <input
+                          className={inputClass("slideGrooveDepth")}
+                          type="number"
+                          min={0.2}
+                          step={0.1}
+                          value={params.slideGrooveDepth}
+                          onChange={(event) =>
+                            set("slideGrooveDepth", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("slideGrooveDepth")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Lid Thickness (mm)</label>
+                        <input
+                          className={inputClass("slideLidThickness")}
+                          type="number"
+                          min={0.4}
+                          step={0.01}
+                          value={params.slideLidThickness}
+                          onChange={(event) =>
+                            set("slideLidThickness", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("slideLidThickness")} />
+                      </div>
+                    </div>
                   </div>
-                ) : (
-                  <div className="grid gap-4 md:grid-cols-3">
+                )}
+                {params.includeLid && params.lidStyle === "hinge" && (
+                  <div className="grid gap-4">
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingePin === "printed"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingePin", "printed")}
+                        type="button"
+                      >
+                        Printed pin
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingePin === "separate"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingePin", "separate")}
+                        type="button"
+                      >
+                        Separate pin
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingeLayout === "closed"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingeLayout", "closed")}
+                        type="button"
+                      >
+                        Export closed
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingeLayout === "open"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingeLayout", "open")}
+                        type="button"
+                      >
+                        Export open, flat
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingeSide === "back"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingeSide", "back")}
+                        type="button"
+                      >
+                        Back
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingeSide === "front"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingeSide", "front")}
+                        type="button"
+                      >
+                        Front
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingeSide === "left"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingeSide", "left")}
+                        type="button"
+                      >
+                        Left
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.hingeSide === "right"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("hingeSide", "right")}
+                        type="button"
+                      >
+                        Right
+                      </button>
+                    </div>
+                    <p className="text-xs text-ink/60">
+                      {params.hingePin === "printed"
+                        ? "The pin is printed with the box and runs loose through the lid knuckles."
+                        : "All knuckles are bored for a pin inserted after printing, such as a length of filament."}{" "}
+                      Lay the lid open and flat to print the hinge in place.
+                    </p>
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Knuckles</label>
+                        <input
+                          className={inputClass("hingeKnuckles")}
+                          type="number"
+                          min={2}
+                          step={1}
+                          value={params.hingeKnuckles}
+                          onChange={(event) =>
+                            set("hingeKnuckles", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("hingeKnuckles")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Pin Diameter (mm)</label>
+                        <input
+                          className={inputClass("hingePinDiameter")}
+                          type="number"
+                          min={0.5}
+                          step={0.1}
+                          value={params.hingePinDiameter}
+                          onChange={(event) =>
+                            set("hingePinDiameter", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("hingePinDiameter")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Hinge Clearance (mm)</label>
+                        <input
+                          className={inputClass("hingeClearance")}
+                          type="number"
+                          min={0.1}
+                          step={0.05}
+                          value={params.hingeClearance}
+                          onChange={(event) =>
+                            set("hingeClearance", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("hingeClearance")} />
+                      </div>
+                    </div>
+                  </div>
+                )}
+                {params.includeLid &&
+                  params.lidStyle === "sleeve" &&
+                  params.shape === "box" && (
+                    <div className="grid gap-4">
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            !params.snapDetents
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("snapDetents", false)}
+                          type="button"
+                        >
+                          Friction fit
+                        </button>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.snapDetents
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("snapDetents", true)}
+                          type="button"
+                        >
+                          Snap detents
+                        </button>
+                      </div>
+                      {params.snapDetents && (
+                        <p className="text-xs text-ink/60">
+                          Bumps on the box walls click into recesses inside the lid.
+                          Engagement height is measured from the bottom of the box
+                          to the centre of the bumps.
+                        </p>
+                      )}
+                      {params.snapDetents && (
+                        <div className="grid gap-4 md:grid-cols-3">
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Bumps Per Side</label>
+                          <input
+                            className={inputClass("snapBumpsPerSide")}
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={params.snapBumpsPerSide}
+                            onChange={(event) =>
+                              set("snapBumpsPerSide", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("snapBumpsPerSide")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Bump Height (mm)</label>
+                          <input
+                            className={inputClass("snapBumpHeight")}
+                            type="number"
+                            min={0.1}
+                            step={0.05}
+                            value={params.snapBumpHeight}
+                            onChange={(event) =>
+                              set("snapBumpHeight", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("snapBumpHeight")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Engagement Height (mm)</label>
+                          <input
+                            className={inputClass("snapEngagement")}
+                            type="number"
+                            min={0.5}
+                            step={0.1}
+                            value={params.snapEngagement}
+                            onChange={(event) =>
+                              set("snapEngagement", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("snapEngagement")} />
+                        </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                {params.includeLid &&
+                  params.shape === "box" &&
+                  (params.lidStyle === "sleeve" ||
+                    params.lidStyle === "plug" ||
+                    params.lidStyle === "hinge") && (
+                    <div className="grid gap-4">
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            !params.magnetPockets
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("magnetPockets", false)}
+                          type="button"
+                        >
+                          No magnets
+                        </button>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.magnetPockets
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("magnetPockets", true)}
+                          type="button"
+                        >
+                          Magnet pockets
+                        </button>
+                      </div>
+                      <FieldIssues issues={issuesFor("magnetPockets")} />
+                      {params.magnetPockets && (
+                        <>
+                          <p className="text-xs text-ink/60">
+                            A pocket in each corner of the rim meets a pocket under the
+                            lid top. Size the pockets to the magnets plus a little
+                            printing tolerance.
+                          </p>
+                          <div className="grid gap-4 md:grid-cols-3">
+                            <div className="grid gap-2">
+                              <label className={labelClass}>Magnet Diameter (mm)</label>
+                              <input
+                                className={inputClass("magnetDiameter")}
+                                type="number"
+                                min={0.5}
+                                step={0.1}
+                                value={params.magnetDiameter}
+                                onChange={(event) =>
+                                  set("magnetDiameter", Number(event.target.value))
+                                }
+                              />
+                              <FieldIssues issues={issuesFor("magnetDiameter")} />
+                            </div>
+                            <div className="grid gap-2">
+                              <label className={labelClass}>Magnet Depth (mm)</label>
+                              <input
+                                className={inputClass("magnetDepth")}
+                                type="number"
+                                min={0.5}
+                                step={0.1}
+                                value={params.magnetDepth}
+                                onChange={(event) =>
+                                  set("magnetDepth", Number(event.target.value))
+                                }
+                              />
+                              <FieldIssues issues={issuesFor("magnetDepth")} />
+                            </div>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+                {params.includeLid && params.lidStyle === "screw" && (
+                  <div className="grid gap-4 md:grid-cols-2">
                     <div className="grid gap-2">
-                      <label className={labelClass}>Wall (mm)</label>
+                      <label className={labelClass}>Thread Pitch (mm)</label>
                       <input
-                        className={numberInput}
+                        className={inputClass("threadPitch")}
                         type="number"
-                        min={0.4}
-                        step={0.01}
-                        value={params.wallThickness}
+                        min={0.5}
+                        step={0.1}
+                        value={params.threadPitch}
                         onChange={(event) =>
-                          set("wallThickness", Number(event.target.value))
+                          set("threadPitch", Number(event.target.value))
                         }
                       />
+                      <FieldIssues issues={issuesFor("threadPitch")} />
                     </div>
                     <div className="grid gap-2">
-                      <label className={labelClass}>Top (mm)</label>
+                      <label className={labelClass}>Turns</label>
                       <input
-                        className={numberInput}
+                        className={inputClass("threadTurns")}
                         type="number"
-                        min={0}
-                        step={0.01}
-                        value={params.topThickness}
+                        min={1}
+                        step={0.25}
+                        value={params.threadTurns}
                         onChange={(event) =>
-                          set("topThickness", Number(event.target.value))
+                          set("threadTurns", Number(event.target.value))
                         }
                       />
+                      <FieldIssues issues={issuesFor("threadTurns")} />
                     </div>
                     <div className="grid gap-2">
-                      <label className={labelClass}>Bottom (mm)</label>
+                      <label className={labelClass}>Thread Depth (mm)</label>
+                      <input
+                        className={inputClass("threadDepth")}
+                        type="number"
+                        min={0.2}
+                        step={0.1}
+                        value={params.threadDepth}
+                        onChange={(event) =>
+                          set("threadDepth", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("threadDepth")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Thread Clearance (mm)</label>
+                      <input
+                        className={inputClass("threadClearance")}
+                        type="number"
+                        min={0.1}
+                        step={0.05}
+                        value={params.threadClearance}
+                        onChange={(event) =>
+                          set("threadClearance", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("threadClearance")} />
+                    </div>
+                  </div>
+                )}
+                {params.includeLid && params.lidStyle === "plug" && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Lip Depth (mm)</label>
+                      <input
+                        className={inputClass("lipDepth")}
+                        type="number"
+                        min={0.5}
+                        step={0.1}
+                        value={params.lipDepth}
+                        onChange={(event) =>
+                          set("lipDepth", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("lipDepth")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Lip Thickness (mm)</label>
                       <input
-                        className={numberInput}
+                        className={inputClass("lipThickness")}
                         type="number"
                         min={0.4}
                         step={0.01}
-                        value={params.bottomThickness}
+                        value={params.lipThickness}
                         onChange={(event) =>
-                          set("bottomThickness", Number(event.target.value))
+                          set("lipThickness", Number(event.target.value))
                         }
                       />
+                      <FieldIssues issues={issuesFor("lipThickness")} />
                     </div>
                   </div>
                 )}
               </div>
 
-              <div className="grid gap-2 md:max-w-xs">
-                <label className={labelClass}>Clearance (mm)</label>
+              <div className="grid gap-4">
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.sizingMode === "inside"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("sizingMode", "inside")}
+                    type="button"
+                  >
+                    Inside dimensions
+                  </button>
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.sizingMode === "outside"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={switchToOutside}
+                    type="button"
+                  >
+                    Outside dimensions
+                  </button>
+                  {(params.shape === "box" || params.sizingMode === "gridfinity") && (
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        params.sizingMode === "gridfinity"
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => set("sizingMode", "gridfinity")}
+                      type="button"
+                    >
+                      Gridfinity
+                    </button>
+                  )}
+                </div>
+                <FieldIssues issues={issuesFor("sizingMode")} />
+                {params.sizingMode === "outside" && (
+                  <p className="text-xs text-ink/60">
+                    Enter the size of the space to fill. Inside dimensions are
+                    worked out from the wall, bottom and lid clearances.
+                  </p>
+                )}
+                {params.sizingMode === "outside" && params.includeLid && (
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        !params.outsideIncludesLid
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => set("outsideIncludesLid", false)}
+                      type="button"
+                    >
+                      Box only
+                    </button>
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        params.outsideIncludesLid
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => set("outsideIncludesLid", true)}
+                      type="button"
+                    >
+                      Box and lid
+                    </button>
+                  </div>
+                )}
+                {params.sizingMode === "outside" && (
+                  <div className="grid gap-4 md:grid-cols-3">
+                    {params.shape === "box" ? (
+                      <>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Outside Width (mm)</label>
+                          <input
+                            className={inputClass("outsideWidth")}
+                            type="number"
+                            min={1}
+                            step={0.1}
+                            value={params.outsideWidth}
+                            onChange={(event) =>
+                              set("outsideWidth", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("outsideWidth")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Outside Depth (mm)</label>
+                          <input
+                            className={inputClass("outsideDepth")}
+                            type="number"
+                            min={1}
+                            step={0.1}
+                            value={params.outsideDepth}
+                            onChange={(event) =>
+                              set("outsideDepth", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("outsideDepth")} />
+                        </div>
+                      </>
+                    ) : params.shape === "polygon" ? (
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Outside Across Flats (mm)</label>
+                        <input
+                          className={inputClass("outsideAcrossFlats")}
+                          type="number"
+                          min={1}
+                          step={0.1}
+                          value={params.outsideAcrossFlats}
+                          onChange={(event) =>
+                            set("outsideAcrossFlats", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("outsideAcrossFlats")} />
+                      </div>
+                    ) : (
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Outside Diameter (mm)</label>
+                        <input
+                          className={inputClass("outsideDiameter")}
+                          type="number"
+                          min={1}
+                          step={0.1}
+                          value={params.outsideDiameter}
+                          onChange={(event) =>
+                            set("outsideDiameter", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("outsideDiameter")} />
+                      </div>
+                    )}
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Outside Height (mm)</label>
+                      <input
+                        className={inputClass("outsideHeight")}
+                        type="number"
+                        min={1}
+                        step={0.1}
+                        value={params.outsideHeight}
+                        onChange={(event) =>
+                          set("outsideHeight", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("outsideHeight")} />
+                    </div>
+                  </div>
+                )}
+                {gridSized && (
+                  <p className="text-xs text-ink/60">
+                    Bins snap to the 42 mm Gridfinity grid and 7 mm height units.
+                    Inside size is derived from the units and wall thickness.
+                  </p>
+                )}
+                {gridSized && (
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Width (units)</label>
+                      <input
+                        className={inputClass("gridUnitsX")}
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={params.gridUnitsX}
+                        onChange={(event) =>
+                          set("gridUnitsX", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("gridUnitsX")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Depth (units)</label>
+                      <input
+                        className={inputClass("gridUnitsY")}
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={params.gridUnitsY}
+                        onChange={(event) =>
+                          set("gridUnitsY", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("gridUnitsY")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Height (units)</label>
+                      <input
+                        className={inputClass("gridUnitsZ")}
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={params.gridUnitsZ}
+                        onChange={(event) =>
+                          set("gridUnitsZ", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("gridUnitsZ")} />
+                    </div>
+                  </div>
+                )}
+                {gridSized && (
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        params.gridMagnetHoles
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => set("gridMagnetHoles", !params.gridMagnetHoles)}
+                      type="button"
+                    >
+                      Magnet holes
+                    </button>
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        params.gridScrewHoles
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => set("gridScrewHoles", !params.gridScrewHoles)}
+                      type="button"
+                    >
+                      Screw holes
+                    </button>
+                  </div>
+                )}
+                {gridSized && (
+                  <FieldIssues issues={issuesFor("gridScrewHoles")} />
+                )}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                {params.shape === "box" ? (
+                  <>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Inside Width (mm)</label>
+                      <input
+                        className={`${inputClass("insideWidth")} ${
+                          derivedSize ? "opacity-50" : ""
+                        }`}
+                        type="number"
+                        min={1}
+                        step={0.1}
+                        value={sizeValue("insideWidth")}
+                        disabled={derivedSize}
+                        onChange={(event) =>
+                          set("insideWidth", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("insideWidth")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Inside Depth (mm)</label>
+                      <input
+                        className={`${inputClass("insideDepth")} ${
+                          derivedSize ? "opacity-50" : ""
+                        }`}
+                        type="number"
+                        min={1}
+                        step={0.1}
+                        value={sizeValue("insideDepth")}
+                        disabled={derivedSize}
+                        onChange={(event) =>
+                          set("insideDepth", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("insideDepth")} />
+                    </div>
+                  </>
+                ) : params.shape === "polygon" ? (
+                  <>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Sides</label>
+                      <input
+                        className={inputClass("polygonSides")}
+                        type="number"
+                        min={3}
+                        max={12}
+                        step={1}
+                        value={params.polygonSides}
+                        onChange={(event) =>
+                          set("polygonSides", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("polygonSides")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Inside Across Flats (mm)</label>
+                      <input
+                        className={`${inputClass("insideAcrossFlats")} ${
+                          derivedSize ? "opacity-50" : ""
+                        }`}
+                        type="number"
+                        min={1}
+                        step={0.1}
+                        value={sizeValue("insideAcrossFlats")}
+                        disabled={derivedSize}
+                        onChange={(event) =>
+                          set("insideAcrossFlats", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("insideAcrossFlats")} />
+                    </div>
+                  </>
+                ) : (
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Inside Diameter (mm)</label>
+                    <input
+                      className={`${inputClass("insideDiameter")} ${
+                        derivedSize ? "opacity-50" : ""
+                      }`}
+                      type="number"
+                      min={1}
+                      step={0.1}
+                      value={sizeValue("insideDiameter")}
+                      disabled={derivedSize}
+                      onChange={(event) =>
+                        set("insideDiameter", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("insideDiameter")} />
+                  </div>
+                )}
+                <div className="grid gap-2">
+                  <label className={labelClass}>Inside Height (mm)</label>
+                  <input
+                    className={`${inputClass("insideHeight")} ${
+                      derivedSize ? "opacity-50" : ""
+                    }`}
+                    type="number"
+                    min={1}
+                    step={0.1}
+                    value={sizeValue("insideHeight")}
+                    disabled={derivedSize}
+                    onChange={(event) =>
+                      set("insideHeight", Number(event.target.value))
+                    }
+                  />
+                  <FieldIssues issues={issuesFor("insideHeight")} />
+                </div>
+              </div>
+
+              {params.shape !== "cylinder" && !gridSized && (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="grid gap-2">
+                  <label className={labelClass}>Inside Radius</label>
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.includeInsideRadius
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("includeInsideRadius", true)}
+                        type="button"
+                      >
+                        Rounded
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          !params.includeInsideRadius
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("includeInsideRadius", false)}
+                        type="button"
+                      >
+                        Square
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Inside Radius (mm)</label>
+                    <input
+                      className={`${inputClass("insideRadius")} ${
+                        params.includeInsideRadius ? "" : "opacity-50"
+                      }`}
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={params.insideRadius}
+                      disabled={!params.includeInsideRadius}
+                      onChange={(event) =>
+                        set("insideRadius", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("insideRadius")} />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid gap-4">
+                <label className={labelClass}>Wall Thickness</label>
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.thicknessMode === "uniform"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("thicknessMode", "uniform")}
+                    type="button"
+                  >
+                    Uniform
+                  </button>
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.thicknessMode === "custom"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("thicknessMode", "custom")}
+                    type="button"
+                  >
+                    Custom
+                  </button>
+                </div>
+
+                {params.thicknessMode === "uniform" ? (
+                  <div className="grid gap-2 md:max-w-xs">
+                    <label className={labelClass}>Uniform (mm)</label>
+                    <input
+                      className={inputClass("thickness")}
+                      type="number"
+                      min={0.4}
+                      step={0.01}
+                      value={params.thickness}
+                      onChange={(event) =>
+                        set("thickness", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("thickness")} />
+                  </div>
+                ) : (
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Wall (mm)</label>
+                      <input
+                        className={inputClass("wallThickness")}
+                        type="number"
+                        min={0.4}
+                        step={0.01}
+                        value={params.wallThickness}
+                        onChange={(event) =>
+                          set("wallThickness", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("wallThickness")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Top (mm)</label>
+                      <input
+                        className={inputClass("topThickness")}
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={params.topThickness}
+                        onChange={(event) =>
+                          set("topThickness", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("topThickness")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Bottom (mm)</label>
+                      <input
+                        className={inputClass("bottomThickness")}
+                        type="number"
+                        min={0.4}
+                        step={0.01}
+                        value={params.bottomThickness}
+                        onChange={(event) =>
+                          set("bottomThickness", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("bottomThickness")} />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid gap-2 md:max-w-xs">
+                <label className={labelClass}>Clearance (mm)</label>
                 <input
-                  className={numberInput}
+                  className={inputClass("clearance")}
                   type="number"
                   min={0}
                   step={0.01}
@@ -525,21 +1824,1136 @@ export default function App() {
                     set("clearance", Number(event.target.value))
                   }
                 />
+                <FieldIssues issues={issuesFor("clearance")} />
+              </div>
+
+              <div className="grid gap-4">
+                <label className={labelClass}>Edge Fillets</label>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Bottom Edges (mm)</label>
+                    <input
+                      className={inputClass("bottomFillet")}
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={params.bottomFillet}
+                      onChange={(event) =>
+                        set("bottomFillet", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("bottomFillet")} />
+                  </div>
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Box Rim (mm)</label>
+                    <input
+                      className={inputClass("rimFillet")}
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={params.rimFillet}
+                      onChange={(event) =>
+                        set("rimFillet", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("rimFillet")} />
+                  </div>
+                  {params.includeLid && (
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Lid Top Edges (mm)</label>
+                      <input
+                        className={inputClass("lidFillet")}
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={params.lidFillet}
+                        onChange={(event) =>
+                          set("lidFillet", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("lidFillet")} />
+                    </div>
+                  )}
+                </div>
+                <p className="text-xs text-ink/60">
+                  Set a radius to round the edges; 0 leaves them sharp.
+                </p>
+              </div>
+
+              <div className="grid gap-4">
+                <label className={labelClass}>Chamfers</label>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Bottom Chamfer (mm)</label>
+                    <input
+                      className={inputClass("bottomChamfer")}
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={params.bottomChamfer}
+                      onChange={(event) =>
+                        set("bottomChamfer", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("bottomChamfer")} />
+                  </div>
+                  {hasLidLeadIn(params) && (
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Lid Lead-in (mm)</label>
+                      <input
+                        className={inputClass("lidLeadIn")}
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={params.lidLeadIn}
+                        onChange={(event) =>
+                          set("lidLeadIn", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("lidLeadIn")} />
+                    </div>
+                  )}
+                </div>
+                <p className="text-xs text-ink/60">
+                  A 45° bottom chamfer on the box and lid offsets the flared first
+                  layer; the lead-in eases the lid opening over the box.
+                </p>
+              </div>
+
+              <div className="grid gap-4">
+                <label className={labelClass}>Label</label>
+                <div className="flex flex-wrap gap-3">
+                  {params.includeLid && (
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        params.labelFace === "lid"
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => set("labelFace", "lid")}
+                      type="button"
+                    >
+                      Lid top
+                    </button>
+                  )}
+                  {params.shape === "box" && (
+                    <>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.labelFace === "front"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("labelFace", "front")}
+                        type="button"
+                      >
+                        Front
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.labelFace === "back"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("labelFace", "back")}
+                        type="button"
+                      >
+                        Back
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.labelFace === "left"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("labelFace", "left")}
+                        type="button"
+                      >
+                        Left
+                      </button>
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.labelFace === "right"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("labelFace", "right")}
+                        type="button"
+                      >
+                        Right
+                      </button>
+                    </>
+                  )}
+                </div>
+                <FieldIssues issues={issuesFor("labelFace")} />
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.labelMode === "emboss"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("labelMode", "emboss")}
+                    type="button"
+                  >
+                    Emboss
+                  </button>
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.labelMode === "deboss"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("labelMode", "deboss")}
+                    type="button"
+                  >
+                    Deboss
+                  </button>
+                </div>
+                <FieldIssues issues={issuesFor("labelMode")} />
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Text</label>
+                    <input
+                      className={inputClass("labelText")}
+                      type="text"
+                      placeholder="No label"
+                      value={params.labelText}
+                      onChange={(event) => set("labelText", event.target.value)}
+                    />
+                    <FieldIssues issues={issuesFor("labelText")} />
+                  </div>
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Font Size (mm)</label>
+                    <input
+                      className={inputClass("labelSize")}
+                      type="number"
+                      min={1}
+                      step={0.5}
+                      value={params.labelSize}
+                      onChange={(event) =>
+                        set("labelSize", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("labelSize")} />
+                  </div>
+                  <div className="grid gap-2">
+                    <label className={labelClass}>Depth (mm)</label>
+                    <input
+                      className={inputClass("labelDepth")}
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={params.labelDepth}
+                      onChange={(event) =>
+                        set("labelDepth", Number(event.target.value))
+                      }
+                    />
+                    <FieldIssues issues={issuesFor("labelDepth")} />
+                  </div>
+                </div>
+                <p className="text-xs text-ink/60">
+                  One line of Helvetiker, centred on the chosen face and reading from
+                  outside the box. Embossed letters stand proud by the depth; debossed
+                  letters are sunk into the face.
+                </p>
+              </div>
+
+              {params.shape === "box" && (
+                <div className="grid gap-4">
+                  <label className={labelClass}>Wall Cutouts</label>
+                  {params.cutouts.map((cutout, index) => (
+                    <div
+                      key={index}
+                      className="grid gap-3 rounded-2xl border border-sand/60 bg-white/50 p-4"
+                    >
+                      <div className="grid gap-3 md:grid-cols-3">
+                        <select
+                          className={numberInput}
+                          value={cutout.wall}
+                          onChange={(event) =>
+                            setCutout(index, {
+                              wall: event.target.value as WallCutout["wall"]
+                            })
+                          }
+                        >
+                          <option value="front">Front wall</option>
+                          <option value="back">Back wall</option>
+                          <option value="left">Left wall</option>
+                          <option value="right">Right wall</option>
+                        </select>
+                        <select
+                          className={numberInput}
+                          value={cutout.shape}
+                          onChange={(event) =>
+                            setCutout(index, {
+                              shape: event.target.value as WallCutout["shape"]
+                            })
+                          }
+                        >
+                          <option value="circle">Circle</option>
+                          <option value="rect">Rectangle</option>
+                          <option value="slot">Rounded slot</option>
+                        </select>
+                        <select
+                          className={numberInput}
+                          value={cutout.origin}
+                          onChange={(event) =>
+                            setCutout(index, {
+                              origin: event.target.value as WallCutout["origin"]
+                            })
+                          }
+                        >
+                          <option value="center">From wall centre</option>
+                          <option value="corner">From lower left corner</option>
+                        </select>
+                      </div>
+                      <div className="grid gap-3 md:grid-cols-4">
+                        <div className="grid gap-2">
+                          <label className={labelClass}>
+                            {cutout.shape === "circle" ? "Diameter (mm)" : "Width (mm)"}
+                          </label>
+                          <input
+                            className={numberInput}
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={cutout.width}
+                            onChange={(event) =>
+                              setCutout(index, { width: Number(event.target.value) })
+                            }
+                          />
+                        </div>
+                        {cutout.shape !== "circle" && (
+                          <div className="grid gap-2">
+                            <label className={labelClass}>Height (mm)</label>
+                            <input
+                              className={numberInput}
+                              type="number"
+                              min={0}
+                              step={0.5}
+                              value={cutout.height}
+                              onChange={(event) =>
+                                setCutout(index, { height: Number(event.target.value) })
+                              }
+                            />
+                          </div>
+                        )}
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Across (mm)</label>
+                          <input
+                            className={numberInput}
+                            type="number"
+                            step={0.5}
+                            value={cutout.x}
+                            onChange={(event) =>
+                              setCutout(index, { x: Number(event.target.value) })
+                            }
+                          />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Up (mm)</label>
+                          <input
+                            className={numberInput}
+                            type="number"
+                            step={0.5}
+                            value={cutout.y}
+                            onChange={(event) =>
+                              setCutout(index, { y: Number(event.target.value) })
+                            }
+                          />
+                        </div>
+                      </div>
+                      <button
+                        className="justify-self-start text-xs font-medium uppercase tracking-[0.16em] text-red-600"
+                        onClick={() =>
+                          set(
+                            "cutouts",
+                            params.cutouts.filter((_, i) => i !== index)
+                          )
+                        }
+                        type="button"
+                      >
+                        Remove cutout {index + 1}
+                      </button>
+                    </div>
+                  ))}
+                  <FieldIssues issues={issuesFor("cutouts")} />
+                  <button
+                    className="justify-self-start rounded-full border border-sand/80 px-4 py-2 text-sm font-medium text-ink transition hover:border-ocean"
+                    onClick={() => set("cutouts", [...params.cutouts, { ...defaultCutout }])}
+                    type="button"
+                  >
+                    Add cutout
+                  </button>
+                  <p className="text-xs text-ink/60">
+                    Positions are to the centre of the hole, seen from outside the box.
+                  </p>
+                </div>
+              )}
+
+              <div className="grid gap-4">
+                <label className={labelClass}>Ventilation</label>
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.ventPattern === "none"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("ventPattern", "none")}
+                    type="button"
+                  >
+                    None
+                  </button>
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.ventPattern === "slots"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("ventPattern", "slots")}
+                    type="button"
+                  >
+                    Slots
+                  </button>
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.ventPattern === "hex"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("ventPattern", "hex")}
+                    type="button"
+                  >
+                    Hex grid
+                  </button>
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.ventPattern === "circles"
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("ventPattern", "circles")}
+                    type="button"
+                  >
+                    Circle grid
+                  </button>
+                </div>
+                {params.ventPattern !== "none" && (
+                  <>
+                    <div className="flex flex-wrap gap-3">
+                      {params.includeLid && (
+                      <button
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.ventFace === "lid"
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("ventFace", "lid")}
+                        type="button"
+                      >
+                        Lid top
+                      </button>
+                      )}
+                      {params.shape === "box" && (
+                        <>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.ventFace === "front"
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("ventFace", "front")}
+                          type="button"
+                        >
+                          Front
+                        </button>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.ventFace === "back"
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("ventFace", "back")}
+                          type="button"
+                        >
+                          Back
+                        </button>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.ventFace === "left"
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("ventFace", "left")}
+                          type="button"
+                        >
+                          Left
+                        </button>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.ventFace === "right"
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("ventFace", "right")}
+                          type="button"
+                        >
+                          Right
+                        </button>
+                        </>
+                      )}
+                    </div>
+                    <FieldIssues issues={issuesFor("ventFace")} />
+                    <div className="grid gap-4 md:grid-cols-4">
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Pitch (mm)</label>
+                        <input
+                          className={inputClass("ventPitch")}
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={params.ventPitch}
+                          onChange={(event) =>
+                            set("ventPitch", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("ventPitch")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Hole Size (mm)</label>
+                        <input
+                          className={inputClass("ventHoleSize")}
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={params.ventHoleSize}
+                          onChange={(event) =>
+                            set("ventHoleSize", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("ventHoleSize")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Margin (mm)</label>
+                        <input
+                          className={inputClass("ventMargin")}
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={params.ventMargin}
+                          onChange={(event) =>
+                            set("ventMargin", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("ventMargin")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Border (mm)</label>
+                        <input
+                          className={inputClass("ventBorder")}
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={params.ventBorder}
+                          onChange={(event) =>
+                            set("ventBorder", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("ventBorder")} />
+                      </div>
+                    </div>
+                    <p className="text-xs text-ink/60">
+                      Holes fill the open area over the cavity, kept the margin in from
+                      its edges. The border is the solid web left between holes.
+                    </p>
+                  </>
+                )}
               </div>
 
-              <div className="mt-2 grid gap-3 md:grid-cols-2">
+              {!gridSized && (
+                <div className="grid gap-4">
+                  <label className={labelClass}>Stacking</label>
+                  <div className="flex flex-wrap gap-3">
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      !params.stackable
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("stackable", false)}
+                    type="button"
+                  >
+                    Flat bottom
+                  </button>
+                  <button
+                    className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                      params.stackable
+                        ? "bg-ocean text-white"
+                        : "border border-sand/80 text-ink"
+                    }`}
+                    onClick={() => set("stackable", true)}
+                    type="button"
+                  >
+                    Stackable
+                  </button>
+                  </div>
+                  <FieldIssues issues={issuesFor("stackable")} />
+                  {params.stackable && (
+                    <>
+                      <div className="grid gap-4 md:grid-cols-3">
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Step Height (mm)</label>
+                        <input
+                          className={inputClass("stackStepHeight")}
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={params.stackStepHeight}
+                          onChange={(event) =>
+                            set("stackStepHeight", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("stackStepHeight")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Stacking Clearance (mm)</label>
+                        <input
+                          className={inputClass("stackClearance")}
+                          type="number"
+                          min={0}
+                          step={0.05}
+                          value={params.stackClearance}
+                          onChange={(event) =>
+                            set("stackClearance", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("stackClearance")} />
+                      </div>
+                      </div>
+                      <p className="text-xs text-ink/60">
+                        The bottom steps in to a foot that drops into the rim of the box
+                        below{params.includeLid ? ", or into the rim raised on its lid" : ""}.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {params.shape === "box" && (
+                <div className="grid gap-4">
+                  <label className={labelClass}>Dividers</label>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Rows</label>
+                      <input
+                        className={inputClass("dividerRows")}
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={params.dividerRows}
+                        onChange={(event) =>
+                          set("dividerRows", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("dividerRows")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Columns</label>
+                      <input
+                        className={inputClass("dividerColumns")}
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={params.dividerColumns}
+                        onChange={(event) =>
+                          set("dividerColumns", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("dividerColumns")} />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className={labelClass}>Divider Thickness (mm)</label>
+                      <input
+                        className={inputClass("dividerThickness")}
+                        type="number"
+                        min={0.4}
+                        step={0.1}
+                        value={params.dividerThickness}
+                        onChange={(event) =>
+                          set("dividerThickness", Number(event.target.value))
+                        }
+                      />
+                      <FieldIssues issues={issuesFor("dividerThickness")} />
+                    </div>
+                  </div>
+                  {(params.dividerRows > 1 || params.dividerColumns > 1) && (
+                    <>
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.dividerFullHeight
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("dividerFullHeight", true)}
+                          type="button"
+                        >
+                          Full height
+                        </button>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            !params.dividerFullHeight
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("dividerFullHeight", false)}
+                          type="button"
+                        >
+                          Partial height
+                        </button>
+                      </div>
+                      <FieldIssues issues={issuesFor("dividerFullHeight")} />
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Divider Height (mm)</label>
+                          <input
+                            className={`${inputClass("dividerHeight")} ${
+                              params.dividerFullHeight ? "opacity-50" : ""
+                            }`}
+                            type="number"
+                            min={0.5}
+                            step={0.1}
+                            value={params.dividerHeight}
+                            disabled={params.dividerFullHeight}
+                            onChange={(event) =>
+                              set("dividerHeight", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("dividerHeight")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Column Widths</label>
+                          <input
+                            className={inputClass("dividerColumnWidths")}
+                            type="text"
+                            placeholder="Equal, or e.g. 1, 2, 1"
+                            value={params.dividerColumnWidths}
+                            onChange={(event) =>
+                              set("dividerColumnWidths", event.target.value)
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("dividerColumnWidths")} />
+                        </div>
+                      </div>
+                      <p className="text-xs text-ink/60">
+                        Column widths are relative shares of the inside width, one per
+                        column.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {params.shape === "box" && (
+                <div className="grid gap-4">
+                  <label className={labelClass}>Standoffs</label>
+                  <div className="flex flex-wrap gap-3">
+                    {(
+                      [
+                        ["none", "None"],
+                        ["pitch", "Rectangular pitch"],
+                        ["holes", "Hole positions"]
+                      ] as [StandoffPattern, string][]
+                    ).map(([value, label]) => (
+                      <button
+                        key={value}
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.standoffPattern === value
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("standoffPattern", value)}
+                        type="button"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <FieldIssues issues={issuesFor("standoffPattern")} />
+                  {params.standoffPattern === "pitch" && (
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Pitch X (mm)</label>
+                        <input
+                          className={inputClass("standoffPitchX")}
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={params.standoffPitchX}
+                          onChange={(event) =>
+                            set("standoffPitchX", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("standoffPitchX")} />
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Pitch Y (mm)</label>
+                        <input
+                          className={inputClass("standoffPitchY")}
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={params.standoffPitchY}
+                          onChange={(event) =>
+                            set("standoffPitchY", Number(event.target.value))
+                          }
+                        />
+                        <FieldIssues issues={issuesFor("standoffPitchY")} />
+                      </div>
+                    </div>
+                  )}
+                  {params.standoffPattern === "holes" && (
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Board Preset</label>
+                        <select
+                          className={numberInput}
+                          value={
+                            standoffPresets.find(
+                              (preset) => preset.holes === params.standoffHoles
+                            )?.id ?? ""
+                          }
+                          onChange={(event) => {
+                            const preset = standoffPresets.find(
+                              (entry) => entry.id === event.target.value
+                            );
+                            if (preset) {
+                              set("standoffHoles", preset.holes);
+                            }
+                          }}
+                        >
+                          <option value="">Custom</option>
+                          {standoffPresets.map((preset) => (
+                            <option key={preset.id} value={preset.id}>
+                              {preset.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="grid gap-2">
+                        <label className={labelClass}>Hole Positions (mm)</label>
+                        <input
+                          className={inputClass("standoffHoles")}
+                          type="text"
+                          placeholder="e.g. 3.5,3.5; 61.5,3.5"
+                          value={params.standoffHoles}
+                          onChange={(event) => set("standoffHoles", event.target.value)}
+                        />
+                        <FieldIssues issues={issuesFor("standoffHoles")} />
+                      </div>
+                    </div>
+                  )}
+                  {params.standoffPattern !== "none" && (
+                    <>
+                      <div className="grid gap-4 md:grid-cols-3">
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Standoff Diameter (mm)</label>
+                          <input
+                            className={inputClass("standoffDiameter")}
+                            type="number"
+                            min={1}
+                            step={0.5}
+                            value={params.standoffDiameter}
+                            onChange={(event) =>
+                              set("standoffDiameter", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("standoffDiameter")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Standoff Height (mm)</label>
+                          <input
+                            className={inputClass("standoffHeight")}
+                            type="number"
+                            min={0.5}
+                            step={0.5}
+                            value={params.standoffHeight}
+                            onChange={(event) =>
+                              set("standoffHeight", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("standoffHeight")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Screw Hole (mm)</label>
+                          <input
+                            className={inputClass("standoffScrewDiameter")}
+                            type="number"
+                            min={0.5}
+                            step={0.1}
+                            value={params.standoffScrewDiameter}
+                            onChange={(event) =>
+                              set("standoffScrewDiameter", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("standoffScrewDiameter")} />
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            !params.standoffInsert
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("standoffInsert", false)}
+                          type="button"
+                        >
+                          Plain hole
+                        </button>
+                        <button
+                          className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                            params.standoffInsert
+                              ? "bg-ocean text-white"
+                              : "border border-sand/80 text-ink"
+                          }`}
+                          onClick={() => set("standoffInsert", true)}
+                          type="button"
+                        >
+                          Heat-set insert
+                        </button>
+                      </div>
+                      {params.standoffInsert && (
+                        <div className="grid gap-4 md:grid-cols-2">
+                          <div className="grid gap-2">
+                            <label className={labelClass}>Insert Bore (mm)</label>
+                            <input
+                              className={inputClass("standoffInsertDiameter")}
+                              type="number"
+                              min={0.5}
+                              step={0.1}
+                              value={params.standoffInsertDiameter}
+                              onChange={(event) =>
+                                set("standoffInsertDiameter", Number(event.target.value))
+                              }
+                            />
+                            <FieldIssues issues={issuesFor("standoffInsertDiameter")} />
+                          </div>
+                          <div className="grid gap-2">
+                            <label className={labelClass}>Insert Depth (mm)</label>
+                            <input
+                              className={inputClass("standoffInsertDepth")}
+                              type="number"
+                              min={0.5}
+                              step={0.1}
+                              value={params.standoffInsertDepth}
+                              onChange={(event) =>
+                                set("standoffInsertDepth", Number(event.target.value))
+                              }
+                            />
+                            <FieldIssues issues={issuesFor("standoffInsertDepth")} />
+                          </div>
+                        </div>
+                      )}
+                      <p className="text-xs text-ink/60">
+                        The hole pattern is centred on the floor. Hole positions are
+                        measured from the lower left corner of the board.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {params.shape === "box" && (
+                <div className="grid gap-4">
+                  <label className={labelClass}>Wall Mount</label>
+                  <div className="flex flex-wrap gap-3">
+                    {(
+                      [
+                        ["none", "None"],
+                        ["back", "Back wall"],
+                        ["floor", "Floor"]
+                      ] as [KeyholeFace, string][]
+                    ).map(([value, label]) => (
+                      <button
+                        key={value}
+                        className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                          params.keyholeFace === value
+                            ? "bg-ocean text-white"
+                            : "border border-sand/80 text-ink"
+                        }`}
+                        onClick={() => set("keyholeFace", value)}
+                        type="button"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <FieldIssues issues={issuesFor("keyholeFace")} />
+                  {params.keyholeFace !== "none" && (
+                    <>
+                      <div className="grid gap-4 md:grid-cols-3">
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Keyholes</label>
+                          <input
+                            className={inputClass("keyholeCount")}
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={params.keyholeCount}
+                            onChange={(event) =>
+                              set("keyholeCount", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("keyholeCount")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Spacing (mm)</label>
+                          <input
+                            className={inputClass("keyholeSpacing")}
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={params.keyholeSpacing}
+                            onChange={(event) =>
+                              set("keyholeSpacing", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("keyholeSpacing")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Head Diameter (mm)</label>
+                          <input
+                            className={inputClass("keyholeHeadDiameter")}
+                            type="number"
+                            min={1}
+                            step={0.5}
+                            value={params.keyholeHeadDiameter}
+                            onChange={(event) =>
+                              set("keyholeHeadDiameter", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("keyholeHeadDiameter")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Shank Width (mm)</label>
+                          <input
+                            className={inputClass("keyholeShankWidth")}
+                            type="number"
+                            min={0.5}
+                            step={0.5}
+                            value={params.keyholeShankWidth}
+                            onChange={(event) =>
+                              set("keyholeShankWidth", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("keyholeShankWidth")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Slot Length (mm)</label>
+                          <input
+                            className={inputClass("keyholeSlotLength")}
+                            type="number"
+                            min={1}
+                            step={0.5}
+                            value={params.keyholeSlotLength}
+                            onChange={(event) =>
+                              set("keyholeSlotLength", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("keyholeSlotLength")} />
+                        </div>
+                        <div className="grid gap-2">
+                          <label className={labelClass}>Reinforcement (mm)</label>
+                          <input
+                            className={inputClass("keyholeReinforcement")}
+                            type="number"
+                            min={0.5}
+                            step={0.5}
+                            value={params.keyholeReinforcement}
+                            onChange={(event) =>
+                              set("keyholeReinforcement", Number(event.target.value))
+                            }
+                          />
+                          <FieldIssues issues={issuesFor("keyholeReinforcement")} />
+                        </div>
+                      </div>
+                      <p className="text-xs text-ink/60">
+                        Keyholes are spaced centre to centre in a row across the middle
+                        of the face, with the slots running up from the head holes, or
+                        towards the back on the floor. A pad inside the box carries the
+                        channel the screw head slides along.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {params.includeLid && (
+                <div className="grid gap-3">
+                  <label className={labelClass}>STL Output</label>
+                  <div className="flex flex-wrap gap-3">
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        stlLayout === "separate"
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => setStlLayout("separate")}
+                      type="button"
+                    >
+                      Separate files
+                    </button>
+                    <button
+                      className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                        stlLayout === "combined"
+                          ? "bg-ocean text-white"
+                          : "border border-sand/80 text-ink"
+                      }`}
+                      onClick={() => setStlLayout("combined")}
+                      type="button"
+                    >
+                      One file
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="mt-2 grid gap-3 md:grid-cols-3">
                 <button
                   className="inline-flex w-full items-center justify-center rounded-2xl bg-ocean px-6 py-3 text-sm font-semibold uppercase tracking-[0.2em] text-white transition hover:bg-ocean/90 disabled:opacity-60"
                   onClick={handleDownload}
-                  disabled={autoStatus === "loading"}
+                  disabled={!canExport}
+                  type="button"
+                >
+                  {autoStatus === "loading"
+                    ? buildStage
+                      ? stageLabels[buildStage]
+                      : "Updating..."
+                    : autoStatus === "invalid"
+                      ? "Fix inputs"
+                      : "Download STEP"}
+                </button>
+                <button
+                  className="inline-flex w-full items-center justify-center rounded-2xl border border-ocean px-6 py-3 text-sm font-semibold uppercase tracking-[0.2em] text-ocean transition hover:bg-ocean/10 disabled:opacity-60"
+                  onClick={handleDownloadStl}
+                  disabled={!canExport || exportStatus !== "idle"}
+                  type="button"
+                >
+                  {exportStatus === "stl" ? "Exporting..." : "Download STL"}
+                </button>
+                <button
+                  className="inline-flex w-full items-center justify-center rounded-2xl border border-ocean px-6 py-3 text-sm font-semibold uppercase tracking-[0.2em] text-ocean transition hover:bg-ocean/10 disabled:opacity-60"
+                  onClick={handleDownload3mf}
+                  disabled={!canExport || exportStatus !== "idle"}
                   type="button"
                 >
-                  {autoStatus === "loading" ? "Updating..." : "Download STEP"}
+                  {exportStatus === "3mf" ? "Exporting..." : "Download 3MF"}
                 </button>
               </div>
-              {autoStatus === "error" && (
-                <p className="text-sm text-red-600">{error}</p>
-              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
             </div>
           </section>
 
@@ -568,6 +2982,16 @@ export default function App() {
                   >
                     Lid
                   </button>
+                  <button
+                    className={`rounded-full px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.18em] transition ${
+                      showStacked ? "bg-ocean text-white" : "border border-sand/70"
+                    } ${!params.stackable ? "opacity-40" : ""}`}
+                    onClick={() => setShowStacked((prev) => !prev)}
+                    type="button"
+                    disabled={!params.stackable}
+                  >
+                    Stacked pair
+                  </button>
                 </div>
               </div>
               <div className="relative mt-4 h-80 rounded-2xl border border-sand/60 bg-porcelain/80">
@@ -582,17 +3006,291 @@ export default function App() {
             <div className="rounded-[28px] border border-sand/70 bg-white/70 p-6">
               <h2 className="text-lg font-semibold text-ink">Outer Size</h2>
               <div className="mt-4 grid gap-2 text-sm text-ink/70">
-                <div>Width: {outerDims.width} mm</div>
-                <div>Depth: {outerDims.depth} mm</div>
+                {params.shape === "polygon" && (
+                  <div>Across flats: {outerDims.acrossFlats} mm</div>
+                )}
+                {params.shape === "cylinder" ? (
+                  <div>Diameter: {outerDims.width} mm</div>
+                ) : (
+                  <>
+                    <div>Width: {outerDims.width} mm</div>
+                    <div>Depth: {outerDims.depth} mm</div>
+                  </>
+                )}
                 <div>Height: {outerDims.height} mm</div>
+                {outerDims.closedHeight !== outerDims.height && (
+                  <div>Height with lid closed: {outerDims.closedHeight} mm</div>
+                )}
+              </div>
+            </div>
+            <div className="rounded-[28px] border border-sand/70 bg-white/70 p-6">
+              <h2 className="text-lg font-semibold text-ink">Design Library</h2>
+              <div className="mt-4 flex gap-3">
+                <input
+                  className={numberInput}
+                  type="text"
+                  placeholder="Design name"
+                  value={designName}
+                  onChange={(event) => setDesignName(event.target.value)}
+                />
+                <button
+                  className="rounded-full bg-ocean px-4 py-2 text-sm font-medium text-white transition hover:bg-ocean/90"
+                  onClick={handleSaveDesign}
+                  type="button"
+                >
+                  Save
+                </button>
+              </div>
+              <div className="mt-4 grid gap-3">
+                {designs.map((design) => (
+                  <div
+                    key={design.id}
+                    className={`flex gap-3 rounded-2xl border p-3 ${
+                      design.id === openDesignId
+                        ? "border-ocean bg-ocean/5"
+                        : "border-sand/60 bg-white/50"
+                    }`}
+                  >
+                    {design.thumbnail ? (
+                      <img
+                        className="h-14 w-20 shrink-0 rounded-lg bg-porcelain object-cover"
+                        src={design.thumbnail}
+                        alt=""
+                      />
+                    ) : (
+                      <div className="h-14 w-20 shrink-0 rounded-lg bg-porcelain" />
+                    )}
+                    <div className="grid min-w-0 flex-1 gap-2">
+                      {renaming?.id === design.id ? (
+                        <form
+                          className="flex gap-2"
+                          onSubmit={(event) => {
+                            event.preventDefault();
+                            const name = renaming.name.trim();
+                            setRenaming(null);
+                            if (name && name !== design.name) {
+                              runLibrary(() => renameDesign(design.id, name));
+                            }
+                          }}
+                        >
+                          <input
+                            className={numberInput}
+                            type="text"
+                            autoFocus
+                            value={renaming.name}
+                            onChange={(event) =>
+                              setRenaming({ id: design.id, name: event.target.value })
+                            }
+                          />
+                          <button className="text-xs font-semibold text-ocean" type="submit">
+                            OK
+                          </button>
+                        </form>
+                      ) : (
+                        <button
+                          className="truncate text-left text-sm font-semibold text-ink hover:text-ocean"
+                          onClick={() => handleOpenDesign(design)}
+                          title="Open this design"
+                          type="button"
+                        >
+                          {design.name}
+                        </button>
+                      )}
+                      <div className="text-xs text-ink/60">
+                        Saved {new Date(design.updatedAt).toLocaleString()}
+                      </div>
+                      <div className="flex flex-wrap gap-3 text-xs font-semibold text-ocean">
+                        {design.id === openDesignId && (
+                          <button
+                            onClick={() =>
+                              runLibrary(async () => {
+                                await updateDesign(design.id, params, captureThumbnail());
+                                return `Saved changes to "${design.name}".`;
+                              })
+                            }
+                            type="button"
+                          >
+                            Save changes
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setRenaming({ id: design.id, name: design.name })}
+                          type="button"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          onClick={() => runLibrary(() => duplicateDesign(design.id))}
+                          type="button"
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          className="text-red-600"
+                          onClick={() => {
+                            if (window.confirm(`Delete "${design.name}" from the library?`)) {
+                              if (design.id === openDesignId) {
+                                setOpenDesignId(null);
+                              }
+                              runLibrary(() => deleteDesign(design.id));
+                            }
+                          }}
+                          type="button"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {designs.length === 0 && (
+                  <p className="text-sm text-ink/60">
+                    Saved designs stay in this browser. Export the library to share it.
+                  </p>
+                )}
+              </div>
+              <div className="mt-4 flex flex-wrap gap-3">
+                <button
+                  className="rounded-full border border-sand/80 px-4 py-2 text-sm font-medium text-ink transition disabled:opacity-40"
+                  onClick={handleExportLibrary}
+                  disabled={designs.length === 0}
+                  type="button"
+                >
+                  Export JSON
+                </button>
+                <button
+                  className="rounded-full border border-sand/80 px-4 py-2 text-sm font-medium text-ink transition"
+                  onClick={() => importRef.current?.click()}
+                  type="button"
+                >
+                  Import JSON
+                </button>
+                <input
+                  ref={importRef}
+                  className="hidden"
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) {
+                      handleImportLibrary(file);
+                    }
+                  }}
+                />
+              </div>
+              {libraryMessage && (
+                <p className="mt-3 text-xs text-ink/70">{libraryMessage}</p>
+              )}
+            </div>
+            <div className="rounded-[28px] border border-sand/70 bg-white/70 p-6">
+              <h2 className="text-lg font-semibold text-ink">Batch Export</h2>
+              <p className="mt-2 text-xs text-ink/60">
+                One box per CSV row. Header cells are the keys from a shared link, such as
+                w, d, h, t, c and lid, plus an optional name column for the file names.
+                Empty cells keep the default.
+              </p>
+              <div className="mt-4 flex flex-wrap items-center gap-3">
+                <button
+                  className="rounded-full border border-sand/80 px-4 py-2 text-sm font-medium text-ink transition"
+                  onClick={() => batchRef.current?.click()}
+                  type="button"
+                >
+                  Choose CSV
+                </button>
+                <input
+                  ref={batchRef}
+                  className="hidden"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = "";
+                    if (file) {
+                      handleChooseBatch(file);
+                    }
+                  }}
+                />
+                {batch && (
+                  <span className="text-sm text-ink/70">
+                    {batch.fileName}: {batch.csv.rows.length} box
+                    {batch.csv.rows.length === 1 ? "" : "es"}
+                  </span>
+                )}
+              </div>
+              {batch && batch.csv.unknownColumns.length > 0 && (
+                <p className="mt-2 text-xs text-amber-700">
+                  Ignored columns: {batch.csv.unknownColumns.join(", ")}
+                </p>
+              )}
+              {batch && batch.csv.rows.some((row) => row.errors.length > 0) && (
+                <p className="mt-2 text-xs text-amber-700">
+                  Lines with values that cannot be read:{" "}
+                  {batch.csv.rows
+                    .filter((row) => row.errors.length > 0)
+                    .map((row) => row.line)
+                    .join(", ")}
+                  . They are listed in report.txt instead of being built.
+                </p>
+              )}
+              <div className="mt-4 flex flex-wrap gap-3">
+                <button
+                  className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                    !batchStl ? "bg-ocean text-white" : "border border-sand/80 text-ink"
+                  }`}
+                  onClick={() => setBatchStl(false)}
+                  type="button"
+                >
+                  STEP only
+                </button>
+                <button
+                  className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                    batchStl ? "bg-ocean text-white" : "border border-sand/80 text-ink"
+                  }`}
+                  onClick={() => setBatchStl(true)}
+                  type="button"
+                >
+                  STEP and STL
+                </button>
               </div>
+              <button
+                className="mt-4 inline-flex w-full items-center justify-center rounded-2xl bg-ocean px-6 py-3 text-sm font-semibold uppercase tracking-[0.2em] text-white transition hover:bg-ocean/90 disabled:opacity-60"
+                onClick={handleBuildBatch}
+                disabled={!batch || exportStatus !== "idle"}
+                type="button"
+              >
+                {exportStatus === "batch" ? "Building..." : "Download ZIP"}
+              </button>
+              {batchMessage && <p className="mt-3 text-xs text-ink/70">{batchMessage}</p>}
             </div>
+            {compartments && (
+              <div className="rounded-[28px] border border-sand/70 bg-white/70 p-6">
+                <h2 className="text-lg font-semibold text-ink">Compartments</h2>
+                <div className="mt-4 grid gap-2 text-sm text-ink/70">
+                  <div>
+                    {compartments.rows.length} × {compartments.columns.length} grid
+                  </div>
+                  <div>Column widths: {compartments.columns.join(", ")} mm</div>
+                  <div>Row depths: {compartments.rows.join(", ")} mm</div>
+                  <div>Divider height: {compartments.height} mm</div>
+                </div>
+              </div>
+            )}
             {lidDims && (
               <div className="rounded-[28px] border border-sand/70 bg-white/70 p-6">
                 <h2 className="text-lg font-semibold text-ink">Lid Outer Size</h2>
                 <div className="mt-4 grid gap-2 text-sm text-ink/70">
-                  <div>Width: {lidDims.width} mm</div>
-                  <div>Depth: {lidDims.depth} mm</div>
+                  {params.shape === "polygon" && (
+                    <div>Across flats: {lidDims.acrossFlats} mm</div>
+                  )}
+                  {params.shape === "cylinder" ? (
+                    <div>Diameter: {lidDims.width} mm</div>
+                  ) : (
+                    <>
+                      <div>Width: {lidDims.width} mm</div>
+                      <div>Depth: {lidDims.depth} mm</div>
+                    </>
+                  )}
                   <div>Height: {lidDims.height} mm</div>
                 </div>
               </div>
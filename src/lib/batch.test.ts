@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { BatchCsvError, collectBatchFiles, readBatchCsv, type BatchRow } from "./batch";
+import { defaultParams } from "./params";
+
+describe("readBatchCsv", () => {
+  it("reads one box per row with the header's parameter keys", () => {
+    const csv = readBatchCsv("name,w,lid,ls\nSmall,40,0,\nTall,80,1,plug\n");
+    expect(csv.rows.map((row) => row.line)).toEqual([2, 3]);
+    expect(csv.rows[0].params).toMatchObject({ insideWidth: 40, includeLid: false });
+    expect(csv.rows[0].params.lidStyle).toBe(defaultParams.lidStyle);
+    expect(csv.rows[1].params).toMatchObject({
+      insideWidth: 80,
+      includeLid: true,
+      lidStyle: "plug"
+    });
+    expect(csv.rows.every((row) => row.errors.length === 0)).toBe(true);
+    expect(csv.unknownColumns).toEqual([]);
+  });
+
+  it("handles quoted cells, a byte order mark and CRLF line ends", () => {
+    const csv = readBatchCsv('\uFEFFname,lbt\r\n"Spice, hot","Say ""hi""\nthere"\r\nNext,x\r\n');
+    expect(csv.rows.map((row) => row.params.labelText)).toEqual(['Say "hi"\nthere', "x"]);
+    expect(csv.rows.map((row) => row.line)).toEqual([2, 4]);
+    expect(csv.rows[0].name).toBe("Spice-hot");
+  });
+
+  it("lists columns it does not know and skips blank rows", () => {
+    const csv = readBatchCsv("W,colour,\n50,red,\n,,\n");
+    expect(csv.rows).toHaveLength(1);
+    expect(csv.rows[0].params.insideWidth).toBe(50);
+    expect(csv.unknownColumns).toEqual(["colour"]);
+  });
+
+  it("rejects files without boxes or parameter keys", () => {
+    expect(() => readBatchCsv("")).toThrow(BatchCsvError);
+    expect(() => readBatchCsv("name,colour\na,red\n")).toThrow(
+      "The header row has no parameter keys such as w, d or h."
+    );
+    expect(() => readBatchCsv("w,d\n")).toThrow("The CSV file has a header but no boxes.");
+    expect(() => readBatchCsv('w\n"40\n')).toThrow(
+      "A quoted cell starting on line 2 is never closed."
+    );
+  });
+
+  it("names files after the row, falling back to its line", () => {
+    const csv = readBatchCsv("name,w\nParts bin!,40\nparts-bin,40\n,40\n../..,40\n");
+    expect(csv.rows.map((row) => row.name)).toEqual([
+      "Parts-bin",
+      "parts-bin-2",
+      "line-4",
+      "line-5"
+    ]);
+  });
+
+  it("reports cells that cannot be read instead of using the default", () => {
+    const csv = readBatchCsv("name,w,lid,ls,lbt\nTypo,12O,yes,hinged,\nFine,12,true,slide,A\n");
+    expect(csv.rows[0].errors).toEqual([
+      'Column w: "12O" is not a number.',
+      'Column lid: "yes" is not 1, 0, true or false.',
+      'Column ls: "hinged" is not a known choice.'
+    ]);
+    expect(csv.rows[1].errors).toEqual([]);
+    expect(csv.rows[1].params).toMatchObject({
+      insideWidth: 12,
+      includeLid: true,
+      lidStyle: "slide",
+      labelText: "A"
+    });
+  });
+
+  it("checks every part of a cutout cell", () => {
+    const csv = readBatchCsv(
+      [
+        "cut",
+        '"back,rect,10,5,0,0,corner;left,slot"',
+        '"front,circle,6,4,0,0;top,circle"',
+        '"front,rect,1O"'
+      ].join("\n")
+    );
+    expect(csv.rows[0].errors).toEqual([]);
+    expect(csv.rows[0].params.cutouts.map((cutout) => cutout.wall)).toEqual(["back", "left"]);
+    expect(csv.rows[1].errors).toEqual([
+      'Column cut: "top,circle" is not a cutout written as wall,shape,width,height,x,y,origin.'
+    ]);
+    expect(csv.rows[2].errors).toHaveLength(1);
+  });
+});
+
+describe("collectBatchFiles", () => {
+  const rows = readBatchCsv("name,w\nfirst,40\nsecond,50\nthird,12O\n").rows;
+
+  it("keeps a row's files only when all of its exports succeed", async () => {
+    const exportRow = async (row: BatchRow) => {
+      const files = [{ name: `${row.name}.step`, data: "step" }];
+      if (row.name === "second") {
+        throw new Error("Meshing failed.");
+      }
+      files.push({ name: `${row.name}-box.stl`, data: "stl" });
+      return files;
+    };
+    const files = await collectBatchFiles(rows, exportRow, []);
+    expect(files.map((file) => file.name)).toEqual(["first.step", "first-box.stl", "report.txt"]);
+    expect(files[2].data).toBe(
+      [
+        "Built 1 of 3 boxes.",
+        "",
+        "Failed rows:",
+        "Line 3 (second): Meshing failed.",
+        'Line 4 (third): Column w: "12O" is not a number.',
+        ""
+      ].join("\n")
+    );
+  });
+
+  it("ends the batch on a stop instead of reporting it", async () => {
+    const stops: unknown[] = [];
+    const cancel = new Error("Cancelled.");
+    const exportRow = async () => {
+      stops.push(cancel);
+      throw new Error("Build failed.");
+    };
+    await expect(collectBatchFiles(rows, exportRow, stops)).rejects.toBe(cancel);
+  });
+});
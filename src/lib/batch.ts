@@ -0,0 +1,261 @@
+import {
+  defaultCutout,
+  defaultParams,
+  paramsToSearch,
+  parseParams,
+  type ShapeParams,
+  type WallCutout
+} from "./params";
+import type { ZipEntry } from "./zip";
+
+// One box of a batch, read from one CSV row. `line` is the line number in
+// the file, for the report. `errors` lists the cells whose values could not
+// be read; such a row is reported as failed instead of being built.
+export type BatchRow = {
+  line: number;
+  name: string;
+  params: ShapeParams;
+  errors: string[];
+};
+
+export type BatchCsv = {
+  rows: BatchRow[];
+  // Header columns that are neither `name` nor a parameter key; their
+  // values are ignored.
+  unknownColumns: string[];
+};
+
+export class BatchCsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchCsvError";
+  }
+}
+
+// The parameter behind every key paramsToSearch can write, found by
+// serializing parameters that differ from all of the defaults and seeing
+// which keys change when one of them goes back to its default.
+const keyFields = (() => {
+  const changed = Object.fromEntries(
+    Object.entries(defaultParams).map(([key, value]) => [
+      key,
+      typeof value === "number"
+        ? value + 1
+        : typeof value === "boolean"
+          ? !value
+          : typeof value === "string"
+            ? `${value}-`
+            : [defaultCutout]
+    ])
+  ) as ShapeParams;
+  const search = (params: ShapeParams) => new URLSearchParams(paramsToSearch(params));
+  const all = search(changed);
+  const fields = new Map<string, keyof ShapeParams>();
+  (Object.keys(defaultParams) as (keyof ShapeParams)[]).forEach((field) => {
+    const reset = search({ ...changed, [field]: defaultParams[field] });
+    all.forEach((value, key) => {
+      if (reset.get(key) !== value) fields.set(key, field);
+    });
+  });
+  return fields;
+})();
+
+const cutoutFields: (keyof WallCutout)[] = ["wall", "shape", "width", "height", "x", "y", "origin"];
+
+const readCell = (key: string, value: string) =>
+  parseParams(new URLSearchParams({ [key]: value }).toString());
+
+const isNumber = (value: string) => Number.isFinite(Number(value));
+
+// parseParams quietly falls back to the default for anything it cannot
+// read, which is right for an old link but would build the wrong box from a
+// typo in a batch, so each cell is checked against its parameter's reader
+// first. Choices and cutout parts are read back to see whether they were
+// taken as written.
+const cellError = (key: string, field: keyof ShapeParams, value: string) => {
+  const fallback = defaultParams[field];
+  if (typeof fallback === "number") {
+    return isNumber(value) ? null : `"${value}" is not a number.`;
+  }
+  if (typeof fallback === "boolean") {
+    return ["1", "0", "true", "false"].includes(value)
+      ? null
+      : `"${value}" is not 1, 0, true or false.`;
+  }
+  if (typeof fallback === "string") {
+    return readCell(key, value)[field] === value ? null : `"${value}" is not a known choice.`;
+  }
+  const entry = value
+    .split(";")
+    .filter((text) => text.trim() !== "")
+    .find((text) => {
+      const parts = text.split(",");
+      const [cutout] = readCell(key, text).cutouts;
+      return (
+        parts.length > cutoutFields.length ||
+        parts.some((part, index) => {
+          const read = cutout[cutoutFields[index]];
+          return part !== "" && (typeof read === "number" ? !isNumber(part) : read !== part);
+        })
+      );
+    });
+  return entry === undefined
+    ? null
+    : `"${entry}" is not a cutout written as wall,shape,width,height,x,y,origin.`;
+};
+
+// Splits CSV text into rows of cells. Cells may be quoted, with "" for a
+// quote inside, so they can hold commas and line breaks; each row keeps the
+// line it started on.
+const parseCsv = (text: string) => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const endCell = () => {
+    cells.push(cell);
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    if (cells.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    rowLine = line;
+  };
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line += 1;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      endCell();
+    } else if (char === "\n") {
+      line += 1;
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new BatchCsvError(`A quoted cell starting on line ${rowLine} is never closed.`);
+  }
+  endRow();
+  return rows;
+};
+
+// File name for a box: its name made safe for a zip entry, or its line, with
+// a counter added when the name is already taken.
+const fileNamer = () => {
+  const used = new Set<string>();
+  return (name: string, line: number) => {
+    const base =
+      name
+        .trim()
+        .replace(/[^\w.-]+/g, "-")
+        .replace(/^[-.]+|-+$/g, "") || `line-${line}`;
+    let fileName = base;
+    for (let count = 2; used.has(fileName.toLowerCase()); count += 1) {
+      fileName = `${base}-${count}`;
+    }
+    used.add(fileName.toLowerCase());
+    return fileName;
+  };
+};
+
+// Reads a batch CSV: a header row of parameter keys, as used in shared
+// links, plus an optional `name` column, then one box per row. Empty cells
+// keep the default; any other cell must hold a value its key can take.
+export const readBatchCsv = (text: string): BatchCsv => {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new BatchCsvError("The CSV file is empty.");
+  }
+  const columns = header.cells.map((cell) => cell.trim().toLowerCase());
+  if (!columns.some((column) => keyFields.has(column))) {
+    throw new BatchCsvError("The header row has no parameter keys such as w, d or h.");
+  }
+  const nameFor = fileNamer();
+  const rows = records.map(({ line, cells }) => {
+    const query = new URLSearchParams();
+    const errors: string[] = [];
+    let name = "";
+    columns.forEach((column, index) => {
+      const value = (cells[index] ?? "").trim();
+      const field = keyFields.get(column);
+      if (column === "name") {
+        name = value;
+      } else if (value !== "" && field) {
+        const error = cellError(column, field, value);
+        if (error) {
+          errors.push(`Column ${column}: ${error}`);
+        } else {
+          query.set(column, value);
+        }
+      }
+    });
+    return {
+      line,
+      name: nameFor(name, line),
+      params: parseParams(query.toString()),
+      errors
+    };
+  });
+  if (!rows.length) {
+    throw new BatchCsvError("The CSV file has a header but no boxes.");
+  }
+  return {
+    rows,
+    unknownColumns: columns.filter(
+      (column) => column !== "" && column !== "name" && !keyFields.has(column)
+    )
+  };
+};
+
+// Files for a batch zip: those of every row that exported in full, then
+// report.txt listing the rows that did not. A row with unreadable cells is
+// reported without being exported, and when `exportRow` throws the row is
+// reported and none of its files are kept. Once `stops` holds an error, such
+// as a cancel, that error ends the whole batch instead.
+export const collectBatchFiles = async (
+  rows: BatchRow[],
+  exportRow: (row: BatchRow) => Promise<ZipEntry[]>,
+  stops: readonly unknown[]
+) => {
+  const entries: ZipEntry[] = [];
+  const failures: string[] = [];
+  for (const row of rows) {
+    if (row.errors.length) {
+      failures.push(`Line ${row.line} (${row.name}): ${row.errors.join(" ")}`);
+      continue;
+    }
+    try {
+      entries.push(...(await exportRow(row)));
+    } catch (err) {
+      if (stops.length) {
+        throw stops[0];
+      }
+      const message = err instanceof Error ? err.message : "CAD build failed.";
+      failures.push(`Line ${row.line} (${row.name}): ${message}`);
+    }
+  }
+  const built = rows.length - failures.length;
+  const report = [
+    `Built ${built} of ${rows.length} box${rows.length === 1 ? "" : "es"}.`,
+    ...(failures.length ? ["", "Failed rows:", ...failures] : [])
+  ];
+  entries.push({ name: "report.txt", data: `${report.join("\n")}\n` });
+  return entries;
+};
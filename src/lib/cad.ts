@@ -10,7 +10,51 @@ import {
   TKSTEPBase,
   TKXSBase
 } from "opencascade.js";
-import { normalizeParamsForCad, type ShapeParams } from "./params";
+import {
+  cutoutCenter,
+  cutoutHeight,
+  dividerLayout,
+  formatParamErrors,
+  gridfinity,
+  hasDividers,
+  hasKeyholes,
+  hasLabel,
+  hasMagnetPockets,
+  hasStackingRim,
+  hasStandoffs,
+  hasVents,
+  hasLidLeadIn,
+  hasSnapDetents,
+  hingeGeometry,
+  isGridfinity,
+  isStackable,
+  keyholeBorder,
+  keyholeLayout,
+  magnetLayout,
+  paramsToSearch,
+  resolveThickness,
+  slideLidHeadroom,
+  snapLayout,
+  standoffCenters,
+  threadGeometry,
+  validateParams,
+  ventLayout,
+  type ShapeParams,
+  type WallCutout,
+  type WallSide
+} from "./params";
+import { collectBatchFiles, type BatchRow } from "./batch";
+import { layoutText } from "./font";
+import { arrangeInRow } from "./mesh";
+import {
+  polygonApothem,
+  polygonExtents,
+  regularPolygonCorners,
+  type Point2
+} from "./polygon";
+import { writeBinaryStl } from "./stl";
+import { write3mf } from "./threemf";
+import { writeZip, type ZipEntry } from "./zip";
 
 let ocPromise: Promise<any> | null = null;
 
@@ -110,20 +154,23 @@ const makePnt = (oc: any, x: number, y: number, z: number) => {
   throw new Error("Unable to build gp_Pnt with provided parameters.");
 };
 
-const debugLog = (label: string, payload?: unknown) => {
-  if (typeof window !== "undefined") {
-    const win = window as unknown as {
-      __cadDebug?: Array<{ label: string; payload?: unknown; time: string }>;
-    };
-    if (!win.__cadDebug) {
-      win.__cadDebug = [];
-    }
-    win.__cadDebug.push({
-      label,
-      payload,
-      time: new Date().toISOString()
-    });
+type DebugEntry = { label: string; payload?: unknown; time: string };
+
+// Kept on globalThis so it survives module reloads and works in the worker.
+const debugEntries = () => {
+  const scope = globalThis as unknown as { __cadDebug?: DebugEntry[] };
+  if (!scope.__cadDebug) {
+    scope.__cadDebug = [];
   }
+  return scope.__cadDebug;
+};
+
+const debugLog = (label: string, payload?: unknown) => {
+  debugEntries().push({
+    label,
+    payload,
+    time: new Date().toISOString()
+  });
   if (payload !== undefined) {
     // eslint-disable-next-line no-console
     console.log("[CAD]", label, payload);
@@ -133,6 +180,19 @@ const debugLog = (label: string, payload?: unknown) => {
   }
 };
 
+export const readDebugLog = (limit = 40) =>
+  debugEntries()
+    .slice(-limit)
+    .map((entry) => {
+      const payload =
+        entry.payload !== undefined ? ` ${JSON.stringify(entry.payload)}` : "";
+      return `${entry.time} ${entry.label}${payload}`;
+    });
+
+export const clearDebugLog = () => {
+  debugEntries().length = 0;
+};
+
 const pntToObj = (p: any) => {
   if (!p) return null;
   const x = toNumber(p.X?.());
@@ -143,7 +203,7 @@ const pntToObj = (p: any) => {
 
 const makeDir = (oc: any, x: number, y: number, z: number) => {
   const DirCtor =
-    getCtorByNames(oc, ["gp_Dir_1", "gp_Dir"]) ?? getCtor(oc, "gp_Dir");
+    getCtorByNames(oc, ["gp_Dir_4", "gp_Dir_1", "gp_Dir"]) ?? getCtor(oc, "gp_Dir");
   if (!DirCtor) {
     throw new Error("OpenCascade gp_Dir constructor not found.");
   }
@@ -535,7 +595,12 @@ const makeFaceFromWire = (oc: any, wire: any) => {
   throw new Error("OpenCascade face builder does not accept wire input.");
 };
 
-const makePrism = (oc: any, shape: any, height: number) => {
+const makePrism = (
+  oc: any,
+  shape: any,
+  height: number,
+  direction: [number, number, number] = [0, 0, 1]
+) => {
   const ctors = [
     oc.BRepPrimAPI_MakePrism_3,
     oc.BRepPrimAPI_MakePrism_2,
@@ -551,10 +616,21 @@ const makePrism = (oc: any, shape: any, height: number) => {
     throw new Error("OpenCascade prism requires a face input.");
   }
   debugLog("makePrism face", { faceType: face?.constructor?.name });
-  const vec = makeVec(oc, 0, 0, height);
+  const vec = makeVec(
+    oc,
+    direction[0] * height,
+    direction[1] * height,
+    direction[2] * height
+  );
   const inputs: any[] = [face, shape];
   for (const Ctor of ctors) {
     for (const input of inputs) {
+      try {
+        const maker = new Ctor(input, vec, false, true);
+        return maker.Shape();
+      } catch {
+        // try next
+      }
       try {
         const maker = new Ctor(input, vec);
         return maker.Shape();
@@ -566,23 +642,34 @@ const makePrism = (oc: any, shape: any, height: number) => {
   throw new Error("OpenCascade prism constructor could not extrude shape.");
 };
 
-const makePipeFromWire = (oc: any, wire: any, height: number, z: number) => {
-  const spineEdge = makeEdgeLine(oc, makePnt(oc, 0, 0, z), makePnt(oc, 0, 0, z + height));
-  const spineWire = makeWireFromEdges(oc, [spineEdge]);
+// Sweeps `profile` along `spine`. With `binormal` set the profile keeps a
+// fixed angle to that direction, which stops it twisting round a helix.
+const makePipeShell = (
+  oc: any,
+  profile: any,
+  spine: any,
+  binormal?: [number, number, number]
+) => {
   const ShellCtor =
     getCtorByNames(oc, ["BRepOffsetAPI_MakePipeShell_1", "BRepOffsetAPI_MakePipeShell"]) ??
     getCtor(oc, "BRepOffsetAPI_MakePipeShell");
   if (ShellCtor) {
-    const shell = new ShellCtor(spineWire);
+    const shell = new ShellCtor(spine);
+    if (binormal) {
+      const setMode = shell.SetMode_3 ?? shell.SetMode;
+      if (typeof setMode === "function") {
+        setMode.call(shell, makeDir(oc, ...binormal));
+      }
+    }
     const add = shell.Add ?? shell.Add_1 ?? shell.Add_2;
     if (typeof add === "function") {
       const attempts = [
-        () => add.call(shell, wire, false, false),
-        () => add.call(shell, wire, true, false),
-        () => add.call(shell, wire, true, true),
-        () => add.call(shell, wire, false),
-        () => add.call(shell, wire, true),
-        () => add.call(shell, wire)
+        () => add.call(shell, profile, false, false),
+        () => add.call(shell, profile, true, false),
+        () => add.call(shell, profile, true, true),
+        () => add.call(shell, profile, false),
+        () => add.call(shell, profile, true),
+        () => add.call(shell, profile)
       ];
       let added = false;
       for (const attempt of attempts) {
@@ -612,12 +699,76 @@ const makePipeFromWire = (oc: any, wire: any, height: number, z: number) => {
     getCtorByNames(oc, ["BRepOffsetAPI_MakePipe_1", "BRepOffsetAPI_MakePipe"]) ??
     getCtor(oc, "BRepOffsetAPI_MakePipe");
   if (PipeCtor) {
-    const pipe = new PipeCtor(spineWire, wire);
+    const pipe = new PipeCtor(spine, profile);
     return pipe.Shape();
   }
   throw new Error("OpenCascade pipe extrusion is not available.");
 };
 
+const makePipeFromWire = (oc: any, wire: any, height: number, z: number) => {
+  const spineEdge = makeEdgeLine(oc, makePnt(oc, 0, 0, z), makePnt(oc, 0, 0, z + height));
+  const spineWire = makeWireFromEdges(oc, [spineEdge]);
+  return makePipeShell(oc, wire, spineWire);
+};
+
+// Right-handed helix on a cylinder of `radius` about the vertical axis
+// through (x, y), starting on the +X side at height z. It is a straight line
+// in the (angle, height) parameter space of the cylinder surface.
+const makeHelixWire = (
+  oc: any,
+  x: number,
+  y: number,
+  z: number,
+  radius: number,
+  pitch: number,
+  turns: number
+) => {
+  const Ax3Ctor = getCtorByNames(oc, ["gp_Ax3_4", "gp_Ax3"]);
+  const SurfaceCtor = getCtorByNames(oc, [
+    "Geom_CylindricalSurface_1",
+    "Geom_CylindricalSurface"
+  ]);
+  const LineCtor = getCtorByNames(oc, ["Geom2d_Line_3", "Geom2d_Line"]);
+  const Pnt2dCtor = getCtorByNames(oc, ["gp_Pnt2d_3", "gp_Pnt2d"]);
+  const Dir2dCtor = getCtorByNames(oc, ["gp_Dir2d_4", "gp_Dir2d"]);
+  const CurveHandleCtor = getCtorByNames(oc, ["Handle_Geom2d_Curve_2"]);
+  const SurfaceHandleCtor = getCtorByNames(oc, ["Handle_Geom_Surface_2"]);
+  const EdgeCtor = getCtorByNames(oc, ["BRepBuilderAPI_MakeEdge_31"]);
+  if (
+    !Ax3Ctor ||
+    !SurfaceCtor ||
+    !LineCtor ||
+    !Pnt2dCtor ||
+    !Dir2dCtor ||
+    !CurveHandleCtor ||
+    !SurfaceHandleCtor ||
+    !EdgeCtor
+  ) {
+    throw new Error("OpenCascade helix utilities not found.");
+  }
+  const surface = new SurfaceCtor(
+    new Ax3Ctor(makePnt(oc, x, y, z), makeDir(oc, 0, 0, 1)),
+    radius
+  );
+  const line = new LineCtor(new Pnt2dCtor(0, 0), new Dir2dCtor(Math.PI * 2, pitch));
+  const length = Math.hypot(Math.PI * 2, pitch) * turns;
+  const maker = new EdgeCtor(
+    new CurveHandleCtor(line),
+    new SurfaceHandleCtor(surface),
+    0,
+    length
+  );
+  if (typeof maker.IsDone === "function" && !maker.IsDone()) {
+    throw new Error("OpenCascade could not build the thread helix.");
+  }
+  const edge = maker.Edge();
+  const buildCurves = oc.BRepLib?.BuildCurves3d_2 ?? oc.BRepLib?.BuildCurves3d;
+  if (typeof buildCurves === "function") {
+    buildCurves.call(oc.BRepLib, edge);
+  }
+  return makeWireFromEdges(oc, [edge]);
+};
+
 const makeAx2 = (oc: any, x: number, y: number, z: number) => {
   const Ax2Ctor =
     getCtorByNames(oc, ["gp_Ax2_1", "gp_Ax2"]) ?? getCtor(oc, "gp_Ax2");
@@ -679,6 +830,33 @@ const makeBoxAt = (
   return maker.Shape();
 };
 
+const makeCylinderAt = (
+  oc: any,
+  x: number,
+  y: number,
+  z: number,
+  radius: number,
+  height: number
+) => {
+  const AxesCtor =
+    getCtorByNames(oc, ["BRepPrimAPI_MakeCylinder_3", "BRepPrimAPI_MakeCylinder"]) ??
+    getCtor(oc, "BRepPrimAPI_MakeCylinder");
+  if (AxesCtor) {
+    try {
+      const maker = new AxesCtor(makeAx2(oc, x, y, z), radius, height);
+      return maker.Shape();
+    } catch {
+      // continue
+    }
+  }
+  const Ctor =
+    getCtorByNames(oc, ["BRepPrimAPI_MakeCylinder_1", "BRepPrimAPI_MakeCylinder"]) ??
+    getCtor(oc, "BRepPrimAPI_MakeCylinder");
+  if (!Ctor) throw new Error("OpenCascade cylinder constructor not found.");
+  const maker = new Ctor(radius, height);
+  return translateShape(oc, maker.Shape(), x, y, z);
+};
+
 const makeXYZ = (oc: any, x: number, y: number, z: number) => {
   const XYZCtor =
     getCtorByNames(oc, ["gp_XYZ_1", "gp_XYZ"]) ?? getCtor(oc, "gp_XYZ");
@@ -793,10 +971,7 @@ const makeVec = (oc: any, x: number, y: number, z: number) => {
 const translateShape = (oc: any, shape: any, x: number, y: number, z: number) => {
   const TrsfCtor =
     getCtorByNames(oc, ["gp_Trsf_1", "gp_Trsf"]) ?? getCtor(oc, "gp_Trsf");
-  const TransformCtor =
-    getCtorByNames(oc, ["BRepBuilderAPI_Transform_1", "BRepBuilderAPI_Transform"]) ??
-    getCtor(oc, "BRepBuilderAPI_Transform");
-  if (!TrsfCtor || !TransformCtor) {
+  if (!TrsfCtor) {
     throw new Error("OpenCascade transform utilities not found.");
   }
   const trsf = new TrsfCtor();
@@ -809,6 +984,41 @@ const translateShape = (oc: any, shape: any, x: number, y: number, z: number) =>
   } else {
     throw new Error("OpenCascade transform lacks translation methods.");
   }
+  return applyTransform(oc, shape, trsf);
+};
+
+// Rotates `shape` by `angle` radians about the axis through `origin` along
+// `axis`.
+const rotateShape = (
+  oc: any,
+  shape: any,
+  origin: [number, number, number],
+  axis: [number, number, number],
+  angle: number
+) => {
+  const TrsfCtor =
+    getCtorByNames(oc, ["gp_Trsf_1", "gp_Trsf"]) ?? getCtor(oc, "gp_Trsf");
+  const Ax1Ctor = getCtorByNames(oc, ["gp_Ax1_2", "gp_Ax1"]) ?? getCtor(oc, "gp_Ax1");
+  if (!TrsfCtor || !Ax1Ctor) {
+    throw new Error("OpenCascade transform utilities not found.");
+  }
+  const trsf = new TrsfCtor();
+  const ax1 = new Ax1Ctor(makePnt(oc, ...origin), makeDir(oc, ...axis));
+  const setRotation = trsf.SetRotation_1 ?? trsf.SetRotation;
+  if (typeof setRotation !== "function") {
+    throw new Error("OpenCascade transform lacks rotation methods.");
+  }
+  setRotation.call(trsf, ax1, angle);
+  return applyTransform(oc, shape, trsf);
+};
+
+const applyTransform = (oc: any, shape: any, trsf: any) => {
+  const TransformCtor =
+    getCtorByNames(oc, ["BRepBuilderAPI_Transform_1", "BRepBuilderAPI_Transform"]) ??
+    getCtor(oc, "BRepBuilderAPI_Transform");
+  if (!TransformCtor) {
+    throw new Error("OpenCascade transform utilities not found.");
+  }
   let transformer: any;
   try {
     transformer = new TransformCtor(shape, trsf, true);
@@ -885,6 +1095,10 @@ const cutShape = (oc: any, outer: any, inner: any) => {
   return buildBoolean(oc, "BRepAlgoAPI_Cut", outer, inner);
 };
 
+const fuseShape = (oc: any, shapeA: any, shapeB: any) => {
+  return buildBoolean(oc, "BRepAlgoAPI_Fuse", shapeA, shapeB);
+};
+
 const makeCompound = (oc: any, shapes: any[]) => {
   const CompoundCtor = getCtor(oc, "TopoDS_Compound");
   const BuilderCtor = getCtor(oc, "BRep_Builder");
@@ -898,6 +1112,122 @@ const makeCompound = (oc: any, shapes: any[]) => {
   return compound;
 };
 
+// Bounds of a shape as [xmin, ymin, zmin, xmax, ymax, zmax].
+const shapeBounds = (oc: any, shape: any) => {
+  const BoxCtor = getCtorByNames(oc, ["Bnd_Box_1", "Bnd_Box"]) ?? getCtor(oc, "Bnd_Box");
+  if (!BoxCtor || !oc.BRepBndLib) throw new Error("OpenCascade bounding box not found.");
+  const box = new BoxCtor();
+  (oc.BRepBndLib.Add ?? oc.BRepBndLib.Add_1).call(oc.BRepBndLib, shape, box, false);
+  const min = box.CornerMin();
+  const max = box.CornerMax();
+  return [min.X(), min.Y(), min.Z(), max.X(), max.Y(), max.Z()].map(toNumber);
+};
+
+// Faces or edges of a shape, in explorer order.
+const subShapes = (oc: any, shape: any, kind: "face" | "edge") => {
+  const ExplorerCtor =
+    getCtorByNames(oc, ["TopExp_Explorer_1", "TopExp_Explorer"]) ??
+    getCtor(oc, "TopExp_Explorer");
+  const kindEnum =
+    kind === "face"
+      ? oc.TopAbs_ShapeEnum?.TopAbs_FACE ?? oc.TopAbs_FACE
+      : oc.TopAbs_ShapeEnum?.TopAbs_EDGE ?? oc.TopAbs_EDGE;
+  const shapeEnum = oc.TopAbs_ShapeEnum?.TopAbs_SHAPE ?? oc.TopAbs_SHAPE;
+  const cast =
+    kind === "face"
+      ? oc.TopoDS?.Face_1 ?? oc.TopoDS?.Face
+      : oc.TopoDS?.Edge_1 ?? oc.TopoDS?.Edge;
+  if (!ExplorerCtor || kindEnum === undefined || typeof cast !== "function") {
+    throw new Error(`OpenCascade ${kind} explorer not found.`);
+  }
+  const explorer = new ExplorerCtor();
+  explorer.Init(shape, kindEnum, shapeEnum ?? kindEnum);
+  const found: any[] = [];
+  while (explorer.More()) {
+    found.push(cast(explorer.Current()));
+    explorer.Next();
+  }
+  return found;
+};
+
+// Edges of the faces lying flat on the lowest or highest plane of the shape,
+// such as a floor or the top of the walls. `loop` narrows them to the outer
+// outline of each face or to the holes inside it.
+const edgesAtLimit = (
+  oc: any,
+  shape: any,
+  limit: "min" | "max",
+  loop: "all" | "outer" | "inner"
+) => {
+  const bounds = shapeBounds(oc, shape);
+  const z = limit === "min" ? bounds[2] : bounds[5];
+  const isFlat = (face: any) => {
+    const [, , zMin, , , zMax] = shapeBounds(oc, face);
+    return Math.abs(zMin - z) < 1e-3 && Math.abs(zMax - z) < 1e-3;
+  };
+  const edges: any[] = [];
+  subShapes(oc, shape, "face")
+    .filter(isFlat)
+    .forEach((face) => {
+      const outer = subShapes(oc, oc.BRepTools.OuterWire(face), "edge");
+      subShapes(oc, face, "edge").forEach((edge) => {
+        const onOuter = outer.some((other) => other.IsSame(edge));
+        const wanted = loop === "all" || onOuter === (loop === "outer");
+        if (wanted && !edges.some((other) => other.IsSame(edge))) {
+          edges.push(edge);
+        }
+      });
+    });
+  return edges;
+};
+
+// Rounds or 45 degree chamfers the edges picked by `edgesAtLimit`. OCC
+// refuses blends that run into neighbouring faces, so failures name the
+// edges and ask for a smaller size.
+const blendEdgesAt = (
+  oc: any,
+  shape: any,
+  kind: "fillet" | "chamfer",
+  size: number,
+  label: string,
+  limit: "min" | "max",
+  loop: "all" | "outer" | "inner" = "all"
+) => {
+  if (size <= 0) return shape;
+  const edges = edgesAtLimit(oc, shape, limit, loop);
+  if (!edges.length) return shape;
+  const name = kind === "fillet" ? "BRepFilletAPI_MakeFillet" : "BRepFilletAPI_MakeChamfer";
+  const Ctor = getCtorByNames(oc, [name]) ?? getCtor(oc, name);
+  if (!Ctor) throw new Error(`OpenCascade ${kind} builder not found.`);
+  let result: any = null;
+  try {
+    const maker =
+      kind === "fillet"
+        ? new Ctor(shape, oc.ChFi3d_FilletShape?.ChFi3d_Rational)
+        : new Ctor(shape);
+    const add = maker.Add_2 ?? maker.Add;
+    edges.forEach((edge) => add.call(maker, size, edge));
+    try {
+      maker.Build();
+    } catch {
+      maker.Build(new oc.Message_ProgressRange_1());
+    }
+    if (typeof maker.IsDone !== "function" || maker.IsDone()) {
+      result = maker.Shape();
+    }
+  } catch {
+    // reported below
+  }
+  if (!result) {
+    throw new Error(
+      kind === "fillet"
+        ? `Could not fillet the ${label} with a ${size} mm radius. Try a smaller radius.`
+        : `Could not chamfer the ${label} by ${size} mm. Try a smaller chamfer.`
+    );
+  }
+  return result;
+};
+
 const writeStep = (oc: any, shape: any) => {
   const WriterCtor =
     getCtorByNames(oc, [
@@ -996,19 +1326,12 @@ const writeStep = (oc: any, shape: any) => {
   throw new Error("STEP writer did not create output file.");
 };
 
-const resolveThickness = (params: ShapeParams) => {
-  if (params.thicknessMode === "uniform") {
-    return {
-      wall: params.thickness,
-      top: params.thickness,
-      bottom: params.thickness
-    };
+const paramsForBuild = (params: ShapeParams) => {
+  const validation = validateParams(params);
+  if (validation.hasErrors) {
+    throw new Error(formatParamErrors(validation));
   }
-  return {
-    wall: params.wallThickness,
-    top: params.topThickness,
-    bottom: params.bottomThickness
-  };
+  return validation.params;
 };
 
 const clampRadius = (radius: number, maxRadius: number) => {
@@ -1016,26 +1339,17 @@ const clampRadius = (radius: number, maxRadius: number) => {
   return Math.min(radius, limit);
 };
 
-const buildRoundedRectPrism = (
+// Outline of a rectangle with corner radius `r`, which must be above zero
+// and leave straight edges on every side.
+const roundedRectWire = (
   oc: any,
   x: number,
   y: number,
   z: number,
   width: number,
   depth: number,
-  height: number,
-  radius: number
+  r: number
 ) => {
-  const maxRadius = Math.min(width, depth) / 2;
-  const r = clampRadius(radius, maxRadius);
-  if (r <= 0) {
-    return makeBoxAt(oc, x, y, z, width, depth, height);
-  }
-  const coreWidth = width - r * 2;
-  const coreDepth = depth - r * 2;
-  if (coreWidth <= 0 || coreDepth <= 0) {
-    return makeBoxAt(oc, x, y, z, width, depth, height);
-  }
   const x0 = x;
   const x1 = x + width;
   const y0 = y;
@@ -1065,17 +1379,75 @@ const buildRoundedRectPrism = (
   const e7 = makeEdgeLine(oc, p7, p8);
   const e8 = makeEdgeArc(oc, p8, midTL, p1);
 
-  const wire = makeWireFromEdges(oc, [e1, e2, e3, e4, e5, e6, e7, e8]);
+  return makeWireFromEdges(oc, [e1, e2, e3, e4, e5, e6, e7, e8]);
+};
+
+const buildRoundedRectPrism = (
+  oc: any,
+  x: number,
+  y: number,
+  z: number,
+  width: number,
+  depth: number,
+  height: number,
+  radius: number
+) => {
+  const maxRadius = Math.min(width, depth) / 2;
+  const r = clampRadius(radius, maxRadius);
+  if (r <= 0) {
+    return makeBoxAt(oc, x, y, z, width, depth, height);
+  }
+  const coreWidth = width - r * 2;
+  const coreDepth = depth - r * 2;
+  if (coreWidth <= 0 || coreDepth <= 0) {
+    return makeBoxAt(oc, x, y, z, width, depth, height);
+  }
+  const wire = roundedRectWire(oc, x, y, z, width, depth, r);
   debugLog("roundedRect wire", { type: wire?.constructor?.name });
+  return extrudeWire(oc, wire, z, height);
+};
+
+const extrudeWire = (oc: any, wire: any, z: number, height: number) => {
   try {
     const face = makeFaceFromWire(oc, wire);
-    debugLog("roundedRect face", { type: face?.constructor?.name });
+    debugLog("extrudeWire face", { type: face?.constructor?.name });
     return makePrism(oc, face, height);
   } catch {
     return makePipeFromWire(oc, wire, height, z);
   }
 };
 
+// Regular polygon centred on (cx, cy) with one flat facing -Y. Rounded
+// corners are arcs tangent to both neighbouring flats.
+const buildRoundedPolygonPrism = (
+  oc: any,
+  cx: number,
+  cy: number,
+  z: number,
+  sides: number,
+  acrossFlats: number,
+  height: number,
+  radius: number
+) => {
+  const r = clampRadius(radius, polygonApothem(acrossFlats));
+  const corners = regularPolygonCorners(sides, acrossFlats, Math.max(0, r));
+  const point = ([x, y]: Point2) => makePnt(oc, cx + x, cy + y, z);
+  const edges: any[] = [];
+  corners.forEach((corner, index) => {
+    if (r > 0) {
+      edges.push(makeEdgeArc(oc, point(corner.start), point(corner.mid), point(corner.end)));
+    }
+    const next = corners[(index + 1) % corners.length];
+    const flat = Math.hypot(next.start[0] - corner.end[0], next.start[1] - corner.end[1]);
+    if (flat > 1e-6) {
+      edges.push(makeEdgeLine(oc, point(corner.end), point(next.start)));
+    }
+  });
+  const wire = makeWireFromEdges(oc, edges);
+  debugLog("polygon wire", { sides, type: wire?.constructor?.name });
+  return extrudeWire(oc, wire, z, height);
+};
+
 const buildBox = (oc: any, params: ShapeParams) => {
   const { wall, top, bottom } = resolveThickness(params);
   const topThickness = 0;
@@ -1111,6 +1483,584 @@ const buildBox = (oc: any, params: ShapeParams) => {
   return cutShape(oc, outerShell, inner);
 };
 
+// Cylinders sit in the positive quadrant like the rectangular box, so the
+// outer wall touches x = 0 and y = 0.
+const buildCylinderBox = (oc: any, params: ShapeParams) => {
+  const { wall, bottom } = resolveThickness(params);
+  const innerRadius = params.insideDiameter / 2;
+  const outerRadius = innerRadius + wall;
+  const outerHeight = params.insideHeight + bottom;
+
+  const outer = makeCylinderAt(oc, outerRadius, outerRadius, 0, outerRadius, outerHeight);
+  const inner = makeCylinderAt(
+    oc,
+    outerRadius,
+    outerRadius,
+    bottom,
+    innerRadius,
+    params.insideHeight
+  );
+  return cutShape(oc, outer, inner);
+};
+
+const buildCylinderLid = (oc: any, params: ShapeParams) => {
+  const { wall, top, bottom } = resolveThickness(params);
+  const baseRadius = params.insideDiameter / 2 + wall;
+  const innerRadius = baseRadius + params.clearance;
+  const outerRadius = innerRadius + wall;
+  const lidHeight = params.insideHeight + bottom + top;
+
+  const outer = makeCylinderAt(oc, baseRadius, baseRadius, 0, outerRadius, lidHeight);
+  const inner = makeCylinderAt(
+    oc,
+    baseRadius,
+    baseRadius,
+    0,
+    innerRadius,
+    lidHeight - top
+  );
+  return cutShape(oc, outer, inner);
+};
+
+const polygonCenter = (params: ShapeParams, acrossFlats: number, radius: number) => {
+  const extents = polygonExtents(params.polygonSides, acrossFlats, radius);
+  return { x: -extents.minX, y: -extents.minY };
+};
+
+const buildPolygonBox = (oc: any, params: ShapeParams) => {
+  const { wall, bottom } = resolveThickness(params);
+  const innerRadius = params.includeInsideRadius ? params.insideRadius : 0;
+  const outerRadius = params.includeInsideRadius ? params.insideRadius + wall : 0;
+  const outerFlats = params.insideAcrossFlats + wall * 2;
+  const center = polygonCenter(params, outerFlats, outerRadius);
+
+  const outer = buildRoundedPolygonPrism(
+    oc,
+    center.x,
+    center.y,
+    0,
+    params.polygonSides,
+    outerFlats,
+    params.insideHeight + bottom,
+    outerRadius
+  );
+  const inner = buildRoundedPolygonPrism(
+    oc,
+    center.x,
+    center.y,
+    bottom,
+    params.polygonSides,
+    params.insideAcrossFlats,
+    params.insideHeight,
+    innerRadius
+  );
+  return cutShape(oc, outer, inner);
+};
+
+const buildPolygonLid = (oc: any, params: ShapeParams) => {
+  const { wall, top, bottom } = resolveThickness(params);
+  const clearance = params.clearance;
+  const baseFlats = params.insideAcrossFlats + wall * 2;
+  const baseRadius = params.includeInsideRadius ? params.insideRadius + wall : 0;
+  const innerFlats = baseFlats + clearance * 2;
+  const innerRadius = params.includeInsideRadius ? baseRadius + clearance : 0;
+  const outerFlats = innerFlats + wall * 2;
+  const outerRadius = params.includeInsideRadius ? innerRadius + wall : 0;
+  const lidHeight = params.insideHeight + bottom + top;
+  // Share the box centre so the lid lands on top of it.
+  const center = polygonCenter(params, baseFlats, baseRadius);
+
+  const outer = buildRoundedPolygonPrism(
+    oc,
+    center.x,
+    center.y,
+    0,
+    params.polygonSides,
+    outerFlats,
+    lidHeight,
+    outerRadius
+  );
+  const inner = buildRoundedPolygonPrism(
+    oc,
+    center.x,
+    center.y,
+    0,
+    params.polygonSides,
+    innerFlats,
+    lidHeight - top,
+    innerRadius
+  );
+  return cutShape(oc, outer, inner);
+};
+
+// Prism of the inside footprint grown outward by `offset` (negative shrinks
+// it), in the same coordinates buildBox and friends use. An offset of `wall`
+// gives the box outer shell; rounded corners grow and shrink with the offset
+// so every outline stays parallel to the cavity.
+const buildOutlinePrism = (
+  oc: any,
+  params: ShapeParams,
+  offset: number,
+  z: number,
+  height: number
+) => {
+  const { wall } = resolveThickness(params);
+  if (params.shape === "cylinder") {
+    const center = params.insideDiameter / 2 + wall;
+    return makeCylinderAt(
+      oc,
+      center,
+      center,
+      z,
+      params.insideDiameter / 2 + offset,
+      height
+    );
+  }
+
+  const radius = params.includeInsideRadius
+    ? Math.max(0, params.insideRadius + offset)
+    : 0;
+  if (params.shape === "polygon") {
+    const baseRadius = params.includeInsideRadius ? params.insideRadius + wall : 0;
+    const center = polygonCenter(params, params.insideAcrossFlats + wall * 2, baseRadius);
+    return buildRoundedPolygonPrism(
+      oc,
+      center.x,
+      center.y,
+      z,
+      params.polygonSides,
+      params.insideAcrossFlats + offset * 2,
+      height,
+      radius
+    );
+  }
+  return buildRoundedRectPrism(
+    oc,
+    wall - offset,
+    wall - offset,
+    z,
+    params.insideWidth + offset * 2,
+    params.insideDepth + offset * 2,
+    height,
+    radius
+  );
+};
+
+// Flat cap flush with the box walls, with a lip that drops into the opening.
+// The lip is built taller than it needs to be and fused into the cap so the
+// boolean never has to deal with faces that merely touch.
+const buildPlugLid = (oc: any, params: ShapeParams) => {
+  const { wall, top, bottom } = resolveThickness(params);
+  const rimZ = params.insideHeight + bottom;
+  const lipOffset = -params.clearance;
+  const lipBottom = rimZ - params.lipDepth;
+
+  const cap = buildOutlinePrism(oc, params, wall, rimZ, top);
+  const lip = buildOutlinePrism(oc, params, lipOffset, lipBottom, params.lipDepth + top / 2);
+  const lipHollow = buildOutlinePrism(
+    oc,
+    params,
+    lipOffset - params.lipThickness,
+    lipBottom,
+    params.lipDepth
+  );
+  return cutShape(oc, fuseShape(oc, cap, lip), lipHollow);
+};
+
+const slideLayout = (params: ShapeParams) => {
+  const { wall, bottom } = resolveThickness(params);
+  const alongWidth = params.slideAxis === "width";
+  const floorTop = bottom + params.insideHeight;
+  const grooveTop = floorTop + params.slideLidThickness + params.clearance;
+  return {
+    wall,
+    alongWidth,
+    along: alongWidth ? params.insideWidth : params.insideDepth,
+    across: alongWidth ? params.insideDepth : params.insideWidth,
+    floorTop,
+    grooveTop,
+    top: floorTop + slideLidHeadroom(params)
+  };
+};
+
+// Sliding-lid geometry is laid out in (u, v) where u runs along the slide
+// and v across it; u = 0 is the open end. These map it back onto x/y.
+const slideBlock = (
+  oc: any,
+  alongWidth: boolean,
+  u0: number,
+  u1: number,
+  v0: number,
+  v1: number,
+  z0: number,
+  z1: number
+) =>
+  alongWidth
+    ? makeBoxAt(oc, u0, v0, z0, u1 - u0, v1 - v0, z1 - z0)
+    : makeBoxAt(oc, v0, u0, z0, v1 - v0, u1 - u0, z1 - z0);
+
+const slideProfilePrism = (
+  oc: any,
+  alongWidth: boolean,
+  u0: number,
+  u1: number,
+  profile: Array<[number, number]>
+) => {
+  const points = profile.map(([v, z]) =>
+    alongWidth ? makePnt(oc, u0, v, z) : makePnt(oc, v, u0, z)
+  );
+  const edges = points.map((point, index) =>
+    makeEdgeLine(oc, point, points[(index + 1) % points.length])
+  );
+  const face = makeFaceFromWire(oc, makeWireFromEdges(oc, edges));
+  return makePrism(oc, face, u1 - u0, alongWidth ? [1, 0, 0] : [0, 1, 0]);
+};
+
+// Cross-section of a groove (or, with `inset`, the tongue riding in it)
+// between heights z0 and z1. Dovetails are half as deep at the top as at the
+// bottom so the lid cannot lift out.
+const slideGrooveProfile = (
+  params: ShapeParams,
+  z0: number,
+  z1: number,
+  inset: number
+): Array<[number, number]> => {
+  const layout = slideLayout(params);
+  const depth = params.slideGrooveDepth;
+  const grooveHeight = layout.grooveTop - layout.floorTop;
+  const depthAt = (z: number) =>
+    params.slideGrooveProfile === "dovetail"
+      ? depth - (depth / 2) * ((z - layout.floorTop) / grooveHeight)
+      : depth;
+  const near = (z: number) => layout.wall - depthAt(z) + inset;
+  const far = (z: number) => layout.wall + layout.across + depthAt(z) - inset;
+  return [
+    [near(z0), z0],
+    [far(z0), z0],
+    [far(z1), z1],
+    [near(z1), z1]
+  ];
+};
+
+const buildSlideBox = (oc: any, params: ShapeParams) => {
+  const { bottom } = resolveThickness(params);
+  const layout = slideLayout(params);
+  const { wall, alongWidth } = layout;
+  const grooveEnd = wall + layout.along + params.slideGrooveDepth;
+
+  const outer = buildOutlinePrism(oc, params, wall, 0, layout.top);
+  const cavity = buildOutlinePrism(oc, params, 0, bottom, layout.top - bottom);
+  let shape = cutShape(oc, outer, cavity);
+
+  // The groove starts outside the open end, runs along both side walls and
+  // bites into the far end wall so the lid is held on three sides.
+  const groove = slideProfilePrism(
+    oc,
+    alongWidth,
+    -1,
+    grooveEnd,
+    slideGrooveProfile(params, layout.floorTop, layout.grooveTop, 0)
+  );
+  shape = cutShape(oc, shape, groove);
+
+  // Lower the open end wall to the groove floor so the lid can slide in. The
+  // notch reaches halfway along the cavity to square off its rounded corners
+  // at the open end, which would otherwise block the lid panel.
+  const notch = slideBlock(
+    oc,
+    alongWidth,
+    -1,
+    wall + layout.along / 2,
+    wall,
+    wall + layout.across,
+    layout.floorTop,
+    layout.top + 1
+  );
+  return cutShape(oc, shape, notch);
+};
+
+const buildSlideLid = (oc: any, params: ShapeParams) => {
+  const layout = slideLayout(params);
+  const { wall, alongWidth } = layout;
+  const clearance = params.clearance;
+  const bottomZ = layout.floorTop + clearance / 2;
+
+  const tongue = slideProfilePrism(
+    oc,
+    alongWidth,
+    0,
+    wall + layout.along + params.slideGrooveDepth - clearance,
+    slideGrooveProfile(params, bottomZ, bottomZ + params.slideLidThickness, clearance)
+  );
+  // The panel follows the cavity outline at the closed end and is squared
+  // off towards the open end to fill the notch.
+  const panel = fuseShape(
+    oc,
+    buildOutlinePrism(oc, params, -clearance, bottomZ, layout.top - bottomZ),
+    slideBlock(
+      oc,
+      alongWidth,
+      0,
+      wall + layout.along / 2,
+      wall + clearance,
+      wall + layout.across - clearance,
+      bottomZ,
+      layout.top
+    )
+  );
+  return fuseShape(oc, tongue, panel);
+};
+
+// Thread ridge swept round the vertical axis through (center, center).
+// `profile` is a closed outline of [radius, height] pairs, with heights
+// relative to the start of the helix at z. `trim` turns are left off the top
+// end without moving the start, so matching threads stay in phase.
+const buildThread = (
+  oc: any,
+  center: number,
+  z: number,
+  radius: number,
+  pitch: number,
+  turns: number,
+  profile: Array<[number, number]>,
+  trim = 0
+) => {
+  const points = profile.map(([r, dz]) => makePnt(oc, center + r, center, z + dz));
+  const edges = points.map((point, index) =>
+    makeEdgeLine(oc, point, points[(index + 1) % points.length])
+  );
+  const helix = makeHelixWire(oc, center, center, z, radius, pitch, turns - trim);
+  const thread = makePipeShell(oc, makeWireFromEdges(oc, edges), helix, [0, 0, 1]);
+  // Cylinder faces have their seam on the +X side and the booleans fail when
+  // a thread end lands on or near it, so the ends are turned to sit either
+  // side of -X instead.
+  const startAngle = Math.PI * (1 - (turns - Math.floor(turns)));
+  return rotateShape(oc, thread, [center, center, 0], [0, 0, 1], startAngle);
+};
+
+// Outline of a thread ridge as [radius, height] pairs: `root` wide where it
+// leaves the wall at `base`, narrowing over 45 degree flanks to `crest` wide
+// `depth` further out (direction 1) or in (-1). The flanks carry on `embed`
+// back into the wall, so the ridge crosses the cylinder face instead of
+// meeting it at a corner, which the fuse cannot always resolve.
+const threadProfile = (
+  base: number,
+  direction: 1 | -1,
+  embed: number,
+  depth: number,
+  root: number,
+  crest: number
+): Array<[number, number]> => {
+  const at = (offset: number) => base + direction * offset;
+  const foot = root / 2 + (embed * (root - crest)) / (depth * 2);
+  return [
+    [at(-embed), -foot],
+    [at(depth), -crest / 2],
+    [at(depth), crest / 2],
+    [at(-embed), foot]
+  ];
+};
+
+const buildScrewBox = (oc: any, params: ShapeParams) => {
+  const { wall } = resolveThickness(params);
+  const thread = threadGeometry(params);
+  const center = params.insideDiameter / 2 + wall;
+  const ridge = buildThread(
+    oc,
+    center,
+    thread.startZ,
+    thread.neckRadius,
+    params.threadPitch,
+    params.threadTurns,
+    threadProfile(
+      thread.neckRadius,
+      1,
+      thread.embed,
+      params.threadDepth,
+      thread.root,
+      thread.crest
+    )
+  );
+  return fuseShape(oc, buildCylinderBox(oc, params), ridge);
+};
+
+// Cap screwed fully down onto the rim, with a skirt carrying the internal
+// thread.
+const buildScrewLid = (oc: any, params: ShapeParams) => {
+  const { wall, top } = resolveThickness(params);
+  const thread = threadGeometry(params);
+  const center = params.insideDiameter / 2 + wall;
+  const bottomZ = thread.rimZ - thread.skirt;
+  const inner = thread.lidInnerRadius;
+  const shell = cutShape(
+    oc,
+    makeCylinderAt(oc, center, center, bottomZ, inner + wall, thread.skirt + top),
+    makeCylinderAt(oc, center, center, bottomZ - 1, inner, thread.skirt + 1)
+  );
+  const ridge = buildThread(
+    oc,
+    center,
+    thread.startZ + params.threadPitch / 2,
+    inner,
+    params.threadPitch,
+    params.threadTurns,
+    threadProfile(inner, -1, thread.embed, params.threadDepth, thread.root, thread.crest),
+    // The last half turn has no box thread above it to bear on, and letting
+    // it run into the cap breaks the fuse.
+    0.5
+  );
+  return fuseShape(oc, shell, ridge);
+};
+
+// Cylinder of `length` starting at (x, y, z) and running along +X or +Y.
+const makeRod = (
+  oc: any,
+  axis: "x" | "y",
+  x: number,
+  y: number,
+  z: number,
+  radius: number,
+  length: number
+) => {
+  const rod = rotateShape(
+    oc,
+    makeCylinderAt(oc, 0, 0, 0, radius, length),
+    [0, 0, 0],
+    axis === "x" ? [0, 1, 0] : [1, 0, 0],
+    axis === "x" ? Math.PI / 2 : -Math.PI / 2
+  );
+  return translateShape(oc, rod, x, y, z);
+};
+
+// Half-round ridges centred on the box outer walls at the engagement height.
+// With `grow` set to the lid clearance they become the matching recesses in
+// the lid, keeping the clearance gap all round each bump.
+const buildSnapRidges = (oc: any, params: ShapeParams, grow: number) => {
+  const { wall } = resolveThickness(params);
+  const width = params.insideWidth + wall * 2;
+  const depth = params.insideDepth + wall * 2;
+  const radius = params.snapBumpHeight + grow;
+  const z = params.snapEngagement;
+  const ridges: any[] = [];
+  const alongX = snapLayout(params, width);
+  for (const center of alongX.centers) {
+    const x = center - alongX.length / 2 - grow;
+    const length = alongX.length + grow * 2;
+    ridges.push(makeRod(oc, "x", x, 0, z, radius, length));
+    ridges.push(makeRod(oc, "x", x, depth, z, radius, length));
+  }
+  const alongY = snapLayout(params, depth);
+  for (const center of alongY.centers) {
+    const y = center - alongY.length / 2 - grow;
+    const length = alongY.length + grow * 2;
+    ridges.push(makeRod(oc, "y", 0, y, z, radius, length));
+    ridges.push(makeRod(oc, "y", width, y, z, radius, length));
+  }
+  return makeCompound(oc, ridges);
+};
+
+// Hinged box and lid, built with the hinge along the back wall and then
+// turned to the requested side. Knuckles alternate between box and lid,
+// starting on the box, so an odd count also ends on the box and an even one
+// on the lid. The hinge clearance separates them along the axis and around
+// the pin.
+const buildHingeParts = (oc: any, params: ShapeParams) => {
+  const { wall, top } = resolveThickness(params);
+  const hinge = hingeGeometry(params);
+  const clearance = params.hingeClearance;
+  const local = hinge.alongWidth
+    ? params
+    : { ...params, insideWidth: params.insideDepth, insideDepth: params.insideWidth };
+  const width = local.insideWidth + wall * 2;
+  const depth = local.insideDepth + wall * 2;
+  const radius = hinge.knuckleRadius;
+  const axisY = depth + hinge.axisOffset;
+  const axisZ = hinge.axisZ;
+
+  let base = buildBox(oc, local);
+  // The lid plate is squared off towards the hinge so it reaches the lid
+  // knuckles across the rounded back corners.
+  let lid = fuseShape(
+    oc,
+    buildOutlinePrism(oc, local, wall, hinge.rimZ, top),
+    makeBoxAt(oc, 0, depth / 2, hinge.rimZ, width, depth / 2 + hinge.protrusion, top)
+  );
+
+  for (let index = 0; index < hinge.knuckles; index += 1) {
+    const u0 = index * (hinge.segment + clearance);
+    const knuckle = makeRod(oc, "x", u0, axisY, axisZ, radius, hinge.segment);
+    if (index % 2 === 0) {
+      // Web tying the knuckle into the wall, overlapping it by a wall.
+      const web = makeBoxAt(
+        oc,
+        u0,
+        depth - wall,
+        axisZ - radius,
+        hinge.segment,
+        axisY - depth + wall,
+        radius * 2
+      );
+      base = fuseShape(oc, base, fuseShape(oc, knuckle, web));
+    } else {
+      // Arm hanging from the lid plate, kept clear of the wall.
+      const arm = makeBoxAt(
+        oc,
+        u0,
+        depth + clearance,
+        axisZ,
+        hinge.segment,
+        radius * 2,
+        hinge.rimZ + top / 2 - axisZ
+      );
+      lid = fuseShape(oc, lid, fuseShape(oc, knuckle, arm));
+    }
+  }
+
+  // A printed pin belongs to the box knuckles and runs loose through the lid
+  // knuckles; a separate pin needs a loose bore through all of them.
+  const bore = makeRod(
+    oc,
+    "x",
+    -1,
+    axisY,
+    axisZ,
+    hinge.pinRadius + clearance,
+    width + 2
+  );
+  lid = cutShape(oc, lid, bore);
+  base =
+    params.hingePin === "printed"
+      ? fuseShape(oc, base, makeRod(oc, "x", 0, axisY, axisZ, hinge.pinRadius, width))
+      : cutShape(oc, base, bore);
+
+  if (params.hingeLayout === "open") {
+    lid = rotateShape(oc, lid, [0, axisY, axisZ], [1, 0, 0], Math.PI);
+  }
+
+  const turn =
+    params.hingeSide === "front"
+      ? Math.PI
+      : params.hingeSide === "left"
+        ? Math.PI / 2
+        : params.hingeSide === "right"
+          ? -Math.PI / 2
+          : 0;
+  if (turn === 0) {
+    return { base, lid };
+  }
+  // Turn about the footprint centre, then move the box back into the
+  // positive quadrant.
+  const place = (shape: any) =>
+    translateShape(
+      oc,
+      rotateShape(oc, shape, [width / 2, depth / 2, 0], [0, 0, 1], turn),
+      hinge.alongWidth ? 0 : (depth - width) / 2,
+      hinge.alongWidth ? 0 : (width - depth) / 2,
+      0
+    );
+  return { base: place(base), lid: place(lid) };
+};
+
 const buildRoundedInnerTool = (oc: any, params: ShapeParams) => {
   const { wall, bottom } = resolveThickness(params);
   if (!params.includeInsideRadius) {
@@ -1171,28 +2121,696 @@ const buildLid = (
   return translateShape(oc, lid, -(clearance + wall), -(clearance + wall), 0);
 };
 
-export const buildStepFile = async (params: ShapeParams) => {
-  const effectiveParams = normalizeParamsForCad(params);
-  const oc = await getOc();
-  const base = buildBox(oc, effectiveParams);
+export type BuildStage = "init" | "box" | "lid" | "mesh" | "step";
+
+// Called before each stage of a build. Returning a promise lets the caller
+// yield to its event loop, and throwing from it aborts the build.
+export type BuildProgress = (stage: BuildStage) => void | Promise<void>;
+
+const loadOc = async (onProgress?: BuildProgress) => {
+  await onProgress?.("init");
+  return getOc();
+};
+
+// Solid lofted through closed wires listed bottom to top, with flat faces
+// between neighbouring sections.
+const loftWires = (oc: any, wires: any[]) => {
+  const Ctor =
+    getCtorByNames(oc, ["BRepOffsetAPI_ThruSections_1", "BRepOffsetAPI_ThruSections"]) ??
+    getCtor(oc, "BRepOffsetAPI_ThruSections");
+  if (!Ctor) throw new Error("OpenCascade loft builder not found.");
+  let maker: any;
+  try {
+    maker = new Ctor(true, true, 1e-6);
+  } catch {
+    maker = new Ctor(true, true);
+  }
+  wires.forEach((wire) => maker.AddWire(wire));
+  if (typeof maker.Build === "function") {
+    try {
+      maker.Build();
+    } catch {
+      maker.Build(new oc.Message_ProgressRange_1());
+    }
+  }
+  return maker.Shape();
+};
+
+// Stepped Gridfinity foot under one grid cell whose top outline starts at
+// (x, y): a 0.8 mm chamfer, 1.8 mm straight and a 2.15 mm chamfer out to the
+// full 41.5 mm cell.
+const buildGridfinityFoot = (oc: any, x: number, y: number) => {
+  const size = gridfinity.pitch - gridfinity.gap;
+  const steps: Array<[number, number]> = [
+    [0, 2.95],
+    [0.8, 2.15],
+    [2.6, 2.15],
+    [gridfinity.baseHeight, 0]
+  ];
+  return loftWires(
+    oc,
+    steps.map(([z, inset]) =>
+      roundedRectWire(
+        oc,
+        x + inset,
+        y + inset,
+        z,
+        size - inset * 2,
+        size - inset * 2,
+        gridfinity.outerRadius - inset
+      )
+    )
+  );
+};
+
+// Replaces the lower part of the floor with one foot per grid cell and cuts
+// the optional magnet and screw holes under each foot's corners.
+const applyGridfinityBase = (oc: any, params: ShapeParams, box: any) => {
+  const { wall } = resolveThickness(params);
+  const width = params.insideWidth + wall * 2;
+  const depth = params.insideDepth + wall * 2;
+  const below = makeBoxAt(oc, -1, -1, -1, width + 2, depth + 2, gridfinity.baseHeight + 1);
+  const feet: any[] = [];
+  const magnets: any[] = [];
+  const screws: any[] = [];
+  for (let column = 0; column < params.gridUnitsX; column += 1) {
+    for (let row = 0; row < params.gridUnitsY; row += 1) {
+      const x = column * gridfinity.pitch;
+      const y = row * gridfinity.pitch;
+      feet.push(buildGridfinityFoot(oc, x, y));
+      const center = (gridfinity.pitch - gridfinity.gap) / 2;
+      for (const dx of [-1, 1]) {
+        for (const dy of [-1, 1]) {
+          const hx = x + center + dx * gridfinity.holeOffset;
+          const hy = y + center + dy * gridfinity.holeOffset;
+          if (params.gridMagnetHoles) {
+            magnets.push(
+              makeCylinderAt(
+                oc,
+                hx,
+                hy,
+                -1,
+                gridfinity.magnetDiameter / 2,
+                gridfinity.magnetDepth + 1
+              )
+            );
+          }
+          if (params.gridScrewHoles) {
+            screws.push(
+              makeCylinderAt(
+                oc,
+                hx,
+                hy,
+                -1,
+                gridfinity.screwDiameter / 2,
+                gridfinity.screwDepth + 1
+              )
+            );
+          }
+        }
+      }
+    }
+  }
+  let shape = fuseShape(oc, cutShape(oc, box, below), makeCompound(oc, feet));
+  // Magnet and screw holes share centres, so each set is cut on its own
+  // rather than as one compound of overlapping tools.
+  for (const holes of [magnets, screws]) {
+    if (holes.length) {
+      shape = cutShape(oc, shape, makeCompound(oc, holes));
+    }
+  }
+  return shape;
+};
+
+// Divider walls for the compartment grid: the cavity footprint up to the
+// divider height with every compartment taken out of it. Compartments round
+// their corners like the cavity does.
+const buildDividers = (oc: any, params: ShapeParams) => {
+  const { wall, bottom } = resolveThickness(params);
+  const layout = dividerLayout(params);
+  const radius = params.includeInsideRadius ? params.insideRadius : 0;
+  const block = buildRoundedRectPrism(
+    oc,
+    wall,
+    wall,
+    bottom,
+    params.insideWidth,
+    params.insideDepth,
+    layout.height,
+    radius
+  );
+  const compartments: any[] = [];
+  for (const column of layout.columns) {
+    for (const row of layout.rows) {
+      compartments.push(
+        buildRoundedRectPrism(
+          oc,
+          wall + column.offset,
+          wall + row.offset,
+          bottom - 1,
+          column.size,
+          row.size,
+          layout.height + 2,
+          radius
+        )
+      );
+    }
+  }
+  return cutShape(oc, block, makeCompound(oc, compartments));
+};
+
+// Fuses the standoffs onto the floor, then bores the screw holes down to the
+// floor and the insert bores in from the top, all in one cut.
+const applyStandoffs = (oc: any, params: ShapeParams, base: any) => {
+  const { bottom } = resolveThickness(params);
+  const height = params.standoffHeight;
+  const topZ = bottom + height;
+  const centers = standoffCenters(params);
+  const bosses = centers.map(([x, y]) =>
+    makeCylinderAt(oc, x, y, bottom, params.standoffDiameter / 2, height)
+  );
+  // Tools in one compound must not overlap, so each insert bore is fused
+  // into its screw hole first.
+  const holes = centers.map(([x, y]) => {
+    const screw = makeCylinderAt(oc, x, y, bottom, params.standoffScrewDiameter / 2, height + 1);
+    if (!params.standoffInsert) {
+      return screw;
+    }
+    const depth = params.standoffInsertDepth;
+    return fuseShape(
+      oc,
+      screw,
+      makeCylinderAt(oc, x, y, topZ - depth, params.standoffInsertDiameter / 2, depth + 1)
+    );
+  });
+  return cutShape(oc, fuseShape(oc, base, makeCompound(oc, bosses)), makeCompound(oc, holes));
+};
+
+// Label letters laid out on the XY plane, reading along +X and centred on the
+// origin, extruded from z0 to z1.
+const buildLabelText = (oc: any, params: ShapeParams, z0: number, z1: number) => {
+  const text = layoutText(params.labelText, params.labelSize);
+  const prisms = (hole: boolean) =>
+    text.contours
+      .filter((contour) => contour.hole === hole)
+      .map((contour) => {
+        const points = contour.points.map(([x, y]) => makePnt(oc, x, y, z0));
+        const edges = points.map((point, index) =>
+          makeEdgeLine(oc, point, points[(index + 1) % points.length])
+        );
+        return makePrism(oc, makeFaceFromWire(oc, makeWireFromEdges(oc, edges)), z1 - z0);
+      });
+  const letters = makeCompound(oc, prisms(false));
+  const holes = prisms(true);
+  return holes.length ? cutShape(oc, letters, makeCompound(oc, holes)) : letters;
+};
+
+// Centre of the lid top in plan. Hinged lids are centred on the box rather
+// than their knuckles, and an open hinged lid is mirrored across the pin.
+const lidTopCenter = (params: ShapeParams): [number, number] => {
+  const { wall } = resolveThickness(params);
+  if (params.shape === "cylinder") {
+    const center = params.insideDiameter / 2 + wall;
+    return [center, center];
+  }
+  if (params.shape === "polygon") {
+    const outerRadius = params.includeInsideRadius ? params.insideRadius + wall : 0;
+    const center = polygonCenter(params, params.insideAcrossFlats + wall * 2, outerRadius);
+    return [center.x, center.y];
+  }
+  const width = params.insideWidth + wall * 2;
+  const depth = params.insideDepth + wall * 2;
+  if (params.lidStyle !== "hinge" || params.hingeLayout !== "open") {
+    return [width / 2, depth / 2];
+  }
+  const offset = hingeGeometry(params).axisOffset;
+  switch (params.hingeSide) {
+    case "front":
+      return [width / 2, -offset * 2 - depth / 2];
+    case "left":
+      return [-offset * 2 - width / 2, depth / 2];
+    case "right":
+      return [(width + offset) * 2 - width / 2, depth / 2];
+    default:
+      return [width / 2, (depth + offset) * 2 - depth / 2];
+  }
+};
+
+// Moves a shape built facing +Z about the origin onto the middle of the lid
+// top. An open hinged lid lies upside down, turned over about the pin.
+const placeOnLid = (oc: any, params: ShapeParams, shape: any, lid: any) => {
+  const [, , minZ, , , maxZ] = shapeBounds(oc, lid);
+  const [x, y] = lidTopCenter(params);
+  const flipped = params.lidStyle === "hinge" && params.hingeLayout === "open";
+  if (!flipped) {
+    return translateShape(oc, shape, x, y, maxZ);
+  }
+  const alongWidth = params.hingeSide === "back" || params.hingeSide === "front";
+  const turned = rotateShape(oc, shape, [0, 0, 0], alongWidth ? [1, 0, 0] : [0, 1, 0], Math.PI);
+  return translateShape(oc, turned, x, y, minZ);
+};
+
+// Moves a shape built facing +Z about the origin onto the outside of a box
+// wall, `u` along the wall from its left end as seen from outside and `z` up
+// from the bed. The shape is stood up facing -Y as on the front wall, then
+// turned round to its own wall.
+const placeOnWall = (
+  oc: any,
+  params: ShapeParams,
+  shape: any,
+  side: WallSide,
+  u: number,
+  z: number
+) => {
+  const { wall } = resolveThickness(params);
+  const width = params.insideWidth + wall * 2;
+  const depth = params.insideDepth + wall * 2;
+  const [x, y, angle] =
+    side === "front"
+      ? [u, 0, 0]
+      : side === "back"
+        ? [width - u, depth, Math.PI]
+        : side === "left"
+          ? [0, depth - u, -Math.PI / 2]
+          : [width, u, Math.PI / 2];
+  const standing = rotateShape(oc, shape, [0, 0, 0], [1, 0, 0], Math.PI / 2);
+  return translateShape(oc, rotateShape(oc, standing, [0, 0, 0], [0, 0, 1], angle), x, y, z);
+};
 
-  if (!effectiveParams.includeLid) {
-    return writeStep(oc, base);
+// Raises the label from its face or sinks it in. The letters are built facing
+// +Z and turned so they read upright from outside the box.
+const applyLabel = (oc: any, params: ShapeParams, shape: any) => {
+  const emboss = params.labelMode === "emboss";
+  let text = emboss
+    ? buildLabelText(oc, params, 0, params.labelDepth)
+    : buildLabelText(oc, params, -params.labelDepth, 1);
+  if (params.labelFace === "lid") {
+    text = placeOnLid(oc, params, text, shape);
+  } else {
+    const [, , minZ, , , maxZ] = shapeBounds(oc, shape);
+    const { wall } = resolveThickness(params);
+    const across = params.labelFace === "front" || params.labelFace === "back";
+    const length = (across ? params.insideWidth : params.insideDepth) + wall * 2;
+    text = placeOnWall(oc, params, text, params.labelFace, length / 2, (minZ + maxZ) / 2);
   }
+  return emboss ? fuseShape(oc, shape, text) : cutShape(oc, shape, text);
+};
+
+// Cutting tool for one wall cutout, centred on the origin facing +Z. It runs
+// from inside the cavity out past the wall.
+const buildCutoutTool = (oc: any, params: ShapeParams, cutout: WallCutout) => {
+  const { wall } = resolveThickness(params);
+  const z0 = -wall - 1;
+  const length = wall + 2;
+  const width = cutout.width;
+  const height = cutoutHeight(cutout);
+  if (cutout.shape === "circle") {
+    return makeCylinderAt(oc, 0, 0, z0, width / 2, length);
+  }
+  const radius = cutout.shape === "slot" ? Math.min(width, height) / 2 : 0;
+  return buildRoundedRectPrism(oc, -width / 2, -height / 2, z0, width, height, length, radius);
+};
 
-  const { wall } = resolveThickness(effectiveParams);
-  const baseOuterWidth = effectiveParams.insideWidth + wall * 2;
-  const baseOuterDepth = effectiveParams.insideDepth + wall * 2;
+// All vent holes go into one compound so the face is cut in a single boolean.
+// Lid tools reach through the whole height of the lid, since the vent area
+// only lies over the open cavity. Wall tools stop just inside the inner wall
+// face so they leave dividers, standoffs and pads in the cavity alone.
+const buildVentTools = (oc: any, params: ShapeParams, part: any) => {
+  const { wall } = resolveThickness(params);
+  const [, , minZ, , , maxZ] = shapeBounds(oc, part);
+  const [z0, length] =
+    params.ventFace === "lid" ? [minZ - maxZ - 1, maxZ - minZ + 2] : [-wall - 0.1, wall + 1.1];
+  const size = params.ventHoleSize;
+  const { holes, alongX } = ventLayout(params);
+  let hexagon: any = null;
+  const tools = holes.map((hole) => {
+    if (params.ventPattern === "circles") {
+      return makeCylinderAt(oc, hole.x, hole.y, z0, size / 2, length);
+    }
+    if (params.ventPattern === "slots") {
+      const [width, depth] = alongX ? [hole.length, size] : [size, hole.length];
+      return buildRoundedRectPrism(
+        oc,
+        hole.x - width / 2,
+        hole.y - depth / 2,
+        z0,
+        width,
+        depth,
+        length,
+        size / 2
+      );
+    }
+    if (!hexagon) {
+      const radius = size / Math.sqrt(3);
+      const points = Array.from({ length: 6 }, (_, k) => {
+        const angle = Math.PI / 2 + (k * Math.PI) / 3;
+        return makePnt(oc, Math.cos(angle) * radius, Math.sin(angle) * radius, z0);
+      });
+      const edges = points.map((point, k) => makeEdgeLine(oc, point, points[(k + 1) % 6]));
+      hexagon = makePrism(oc, makeFaceFromWire(oc, makeWireFromEdges(oc, edges)), length);
+    }
+    return translateShape(oc, hexagon, hole.x, hole.y, 0);
+  });
+  const compound = makeCompound(oc, tools);
+  if (params.ventFace === "lid") {
+    return placeOnLid(oc, params, compound, part);
+  }
+  const { bottom } = resolveThickness(params);
+  const across = params.ventFace === "front" || params.ventFace === "back";
+  const span = (across ? params.insideWidth : params.insideDepth) + wall * 2;
+  return placeOnWall(
+    oc,
+    params,
+    compound,
+    params.ventFace,
+    span / 2,
+    bottom + params.insideHeight / 2
+  );
+};
+
+const applyCutouts = (oc: any, params: ShapeParams, shape: any) => {
+  const tools = params.cutouts.map((cutout) => {
+    const { u, z } = cutoutCenter(params, cutout);
+    return placeOnWall(oc, params, buildCutoutTool(oc, params, cutout), cutout.wall, u, z);
+  });
+  return cutShape(oc, shape, makeCompound(oc, tools));
+};
+
+// Magnet pockets about the middle of the box footprint, running up from `z`.
+const buildMagnetPockets = (oc: any, params: ShapeParams, z: number, height: number) => {
+  const radius = params.magnetDiameter / 2;
+  const { centers } = magnetLayout(params);
+  return makeCompound(
+    oc,
+    centers.map(([x, y]) => makeCylinderAt(oc, x, y, z, radius, height))
+  );
+};
+
+// Sinks the pockets into the corners of the rim and the matching pockets up
+// into the underside of the lid top, where they meet when the lid is closed.
+const applyMagnetPockets = (oc: any, params: ShapeParams, shape: any, part: "box" | "lid") => {
+  const { wall, top, bottom } = resolveThickness(params);
+  const depth = params.magnetDepth;
+  if (part === "lid") {
+    return cutShape(
+      oc,
+      shape,
+      placeOnLid(oc, params, buildMagnetPockets(oc, params, -top - 1, depth + 1), shape)
+    );
+  }
+  const pockets = buildMagnetPockets(oc, params, params.insideHeight + bottom - depth, depth + 1);
+  return cutShape(
+    oc,
+    shape,
+    translateShape(
+      oc,
+      pockets,
+      params.insideWidth / 2 + wall,
+      params.insideDepth / 2 + wall,
+      0
+    )
+  );
+};
+
+// Fuses the keyhole pads on inside the back wall or floor and cuts the
+// keyholes through them. Each keyhole is built facing +Z with the outer face
+// at z = 0 and the face of thickness `skin` below it: the head hole and shank
+// slot go right through, and the head channel runs through the pad alone so
+// the screw head slides up behind the wall.
+const applyKeyholes = (oc: any, params: ShapeParams, base: any) => {
+  const { wall, bottom } = resolveThickness(params);
+  const onFloor = params.keyholeFace === "floor";
+  const skin = onFloor ? bottom : wall;
+  const depth = params.keyholeReinforcement;
+  const head = params.keyholeHeadDiameter;
+  const shank = params.keyholeShankWidth;
+  const slot = params.keyholeSlotLength;
+  const layout = keyholeLayout(params);
+  const z0 = -skin - depth - 1;
+  const pads: any[] = [];
+  const tools = layout.positions.map((x) => {
+    const y = layout.head;
+    pads.push(
+      buildRoundedRectPrism(
+        oc,
+        x - layout.padWidth / 2,
+        y - head / 2 - keyholeBorder,
+        -skin - depth,
+        layout.padWidth,
+        layout.padLength,
+        depth + skin / 2,
+        layout.padWidth / 2
+      )
+    );
+    const length = skin + depth + 2;
+    const through = fuseShape(
+      oc,
+      makeCylinderAt(oc, x, y, z0, head / 2, length),
+      buildRoundedRectPrism(
+        oc,
+        x - shank / 2,
+        y - shank / 2,
+        z0,
+        shank,
+        slot + shank,
+        length,
+        shank / 2
+      )
+    );
+    const channel = buildRoundedRectPrism(
+      oc,
+      x - head / 2,
+      y - head / 2,
+      z0,
+      head,
+      slot + head,
+      depth + 1,
+      head / 2
+    );
+    return fuseShape(oc, through, channel);
+  });
+  // Back wall keyholes stand on the wall like a cutout; floor keyholes are
+  // turned over about Y so the slots still run towards the back.
+  const place = (shape: any) =>
+    onFloor
+      ? translateShape(
+          oc,
+          rotateShape(oc, shape, [0, 0, 0], [0, 1, 0], Math.PI),
+          layout.length,
+          0,
+          0
+        )
+      : placeOnWall(oc, params, shape, "back", 0, 0);
+  return cutShape(
+    oc,
+    fuseShape(oc, base, place(makeCompound(oc, pads))),
+    place(makeCompound(oc, tools))
+  );
+};
+
+// Steps the bottom of a stacking box in past the wall, leaving a foot that
+// drops into the opening of the box below with the stacking clearance all
+// round.
+const applyStackingFoot = (oc: any, params: ShapeParams, base: any) => {
+  const { wall } = resolveThickness(params);
+  const step = params.stackStepHeight;
+  const ring = cutShape(
+    oc,
+    buildOutlinePrism(oc, params, wall + 1, -1, step + 1),
+    buildOutlinePrism(oc, params, -params.stackClearance, -2, step + 3)
+  );
+  return cutShape(oc, base, ring);
+};
+
+// Rim standing on the lid top at `z` over the box walls, so the foot of the
+// box above drops into it just as it would into an open box.
+const buildStackingRim = (oc: any, params: ShapeParams, z: number) => {
+  const { wall } = resolveThickness(params);
+  const step = params.stackStepHeight;
+  return cutShape(
+    oc,
+    buildOutlinePrism(oc, params, wall, z, step),
+    buildOutlinePrism(oc, params, 0, z - 1, step + 2)
+  );
+};
+
+// Box and lid plus the features that are added to any box style.
+const buildParts = async (
+  oc: any,
+  params: ShapeParams,
+  onProgress?: BuildProgress
+) => {
+  const parts = await buildShellParts(oc, params, onProgress);
+  // The stepped base and the stacking foot reshape the plain box, before any
+  // feature is added to the floor.
+  let base = isStackable(params) ? applyStackingFoot(oc, params, parts.base) : parts.base;
+  if (isGridfinity(params)) {
+    base = applyGridfinityBase(oc, params, base);
+  }
+  base = blendEdgesAt(oc, base, "fillet", params.bottomFillet, "bottom edges", "min");
+  if (!isGridfinity(params)) {
+    base = blendEdgesAt(
+      oc,
+      base,
+      "chamfer",
+      params.bottomChamfer,
+      "bottom edges",
+      "min",
+      "outer"
+    );
+  }
+  base = blendEdgesAt(oc, base, "fillet", params.rimFillet, "box rim", "max");
+  if (hasMagnetPockets(params)) {
+    base = applyMagnetPockets(oc, params, base, "box");
+  }
+  if (hasLabel(params) && params.labelFace !== "lid") {
+    base = applyLabel(oc, params, base);
+  }
+  if (params.cutouts.length) {
+    base = applyCutouts(oc, params, base);
+  }
+  if (hasVents(params) && params.ventFace !== "lid") {
+    base = cutShape(oc, base, buildVentTools(oc, params, base));
+  }
+  if (hasDividers(params)) {
+    base = fuseShape(oc, base, buildDividers(oc, params));
+  }
+  if (hasStandoffs(params)) {
+    base = applyStandoffs(oc, params, base);
+  }
+  if (hasKeyholes(params)) {
+    base = applyKeyholes(oc, params, base);
+  }
+  let lid = parts.lid;
+  if (lid) {
+    if (isStackable(params) && params.lidStyle === "sleeve") {
+      // The sleeve stops at the foot step rather than running down to the
+      // bed, where it would land on the lid below.
+      const [minX, minY, , maxX, maxY] = shapeBounds(oc, lid);
+      const below = makeBoxAt(
+        oc,
+        minX - 1,
+        minY - 1,
+        -1,
+        maxX - minX + 2,
+        maxY - minY + 2,
+        params.stackStepHeight + 1
+      );
+      lid = cutShape(oc, lid, below);
+    }
+    // An open hinged lid lies upside down, with its top on the bed.
+    const flipped = params.lidStyle === "hinge" && params.hingeLayout === "open";
+    lid = blendEdgesAt(
+      oc,
+      lid,
+      "fillet",
+      params.lidFillet,
+      "lid top edges",
+      flipped ? "min" : "max"
+    );
+    lid = blendEdgesAt(
+      oc,
+      lid,
+      "chamfer",
+      params.bottomChamfer,
+      "lid bottom edges",
+      "min",
+      "outer"
+    );
+    if (hasLidLeadIn(params)) {
+      lid = blendEdgesAt(oc, lid, "chamfer", params.lidLeadIn, "lid opening", "min", "inner");
+    }
+    // Taken before an embossed label raises the top.
+    const lidTop = shapeBounds(oc, lid)[5];
+    if (hasMagnetPockets(params)) {
+      lid = applyMagnetPockets(oc, params, lid, "lid");
+    }
+    if (hasLabel(params) && params.labelFace === "lid") {
+      lid = applyLabel(oc, params, lid);
+    }
+    if (hasVents(params) && params.ventFace === "lid") {
+      lid = cutShape(oc, lid, buildVentTools(oc, params, lid));
+    }
+    if (hasStackingRim(params)) {
+      lid = fuseShape(oc, lid, buildStackingRim(oc, params, lidTop));
+    }
+  }
+  return { base, lid };
+};
+
+const buildShellParts = async (
+  oc: any,
+  params: ShapeParams,
+  onProgress?: BuildProgress
+) => {
+  await onProgress?.("box");
+  if (params.includeLid && params.lidStyle === "hinge") {
+    // Box and lid share the knuckle layout, so they are built together.
+    const parts = buildHingeParts(oc, params);
+    await onProgress?.("lid");
+    return parts;
+  }
+  const slide = params.includeLid && params.lidStyle === "slide";
+  const screw = params.includeLid && params.lidStyle === "screw";
+  const base = slide
+    ? buildSlideBox(oc, params)
+    : screw
+      ? buildScrewBox(oc, params)
+      : params.shape === "cylinder"
+        ? buildCylinderBox(oc, params)
+        : params.shape === "polygon"
+          ? buildPolygonBox(oc, params)
+          : buildBox(oc, params);
+  if (!params.includeLid) {
+    return { base, lid: null };
+  }
+
+  await onProgress?.("lid");
+  if (slide) {
+    return { base, lid: buildSlideLid(oc, params) };
+  }
+  if (screw) {
+    return { base, lid: buildScrewLid(oc, params) };
+  }
+  if (params.lidStyle === "plug") {
+    return { base, lid: buildPlugLid(oc, params) };
+  }
+  if (params.shape === "cylinder") {
+    return { base, lid: buildCylinderLid(oc, params) };
+  }
+  if (params.shape === "polygon") {
+    return { base, lid: buildPolygonLid(oc, params) };
+  }
+  const { wall } = resolveThickness(params);
   const baseOuter = {
-    width: baseOuterWidth,
-    depth: baseOuterDepth
+    width: params.insideWidth + wall * 2,
+    depth: params.insideDepth + wall * 2
   };
+  const lid = buildLid(oc, params, baseOuter);
+  if (hasSnapDetents(params)) {
+    return {
+      base: fuseShape(oc, base, buildSnapRidges(oc, params, 0)),
+      lid: cutShape(oc, lid, buildSnapRidges(oc, params, params.clearance))
+    };
+  }
+  return { base, lid };
+};
 
-  const lid = buildLid(oc, effectiveParams, baseOuter);
-  const compound = makeCompound(oc, [base, lid]);
-  return writeStep(oc, compound);
+export const buildStepFile = async (
+  params: ShapeParams,
+  onProgress?: BuildProgress
+) => {
+  const effectiveParams = paramsForBuild(params);
+  const oc = await loadOc(onProgress);
+  const { base, lid } = await buildParts(oc, effectiveParams, onProgress);
+
+  await onProgress?.("step");
+  return writePartsStep(oc, base, lid);
 };
 
+const writePartsStep = (oc: any, base: any, lid: any) =>
+  writeStep(oc, lid ? makeCompound(oc, [base, lid]) : base);
+
 export type PreviewMeshData = {
   positions: number[];
   indices: number[];
@@ -1201,15 +2819,37 @@ export type PreviewMeshData = {
 export type PreviewMeshes = {
   box: PreviewMeshData;
   lid?: PreviewMeshData;
+  // Height at which a second stacking box sits on this one.
+  stackHeight?: number;
+};
+
+export type StlLayout = "separate" | "combined";
+
+// Hinged parts are captured on their pin, so exports keep them where they
+// were built instead of laying them out side by side.
+const isHinged = (params: ShapeParams) =>
+  params.includeLid && params.lidStyle === "hinge";
+
+export type StlFile = {
+  filename: string;
+  data: Uint8Array;
 };
 
-const buildPreviewMesh = (oc: any, shape: any): PreviewMeshData => {
+// Linear (mm) and angular (rad) deflection used when tessellating B-rep faces.
+const previewTolerance = { linear: 0.5, angular: 0.5 };
+const exportTolerance = { linear: 0.05, angular: 0.1 };
+
+const buildPreviewMesh = (
+  oc: any,
+  shape: any,
+  tolerance = previewTolerance
+): PreviewMeshData => {
   const MeshCtor =
     getCtorByNames(oc, ["BRepMesh_IncrementalMesh_2", "BRepMesh_IncrementalMesh"]) ??
     getCtor(oc, "BRepMesh_IncrementalMesh");
   if (MeshCtor) {
     try {
-      new MeshCtor(shape, 0.5, false, 0.5, true);
+      new MeshCtor(shape, tolerance.linear, false, tolerance.angular, true);
     } catch {
       // continue without explicit meshing
     }
@@ -1254,6 +2894,10 @@ const buildPreviewMesh = (oc: any, shape: any): PreviewMeshData => {
       explorer.Next();
       continue;
     }
+    const orientation = face.Orientation_1?.() ?? face.Orientation?.();
+    const reversed =
+      orientation !== undefined &&
+      orientation === oc.TopAbs_Orientation?.TopAbs_REVERSED;
     const loc = new LocationCtor();
     const triangulation =
       oc.BRep_Tool?.Triangulation?.(face, loc) ??
@@ -1287,7 +2931,11 @@ const buildPreviewMesh = (oc: any, shape: any): PreviewMeshData => {
         const b = indexMap.get(toNumber(tri.Value(2)));
         const c = indexMap.get(toNumber(tri.Value(3)));
         if (a !== undefined && b !== undefined && c !== undefined) {
-          indices.push(a, b, c);
+          if (reversed) {
+            indices.push(a, c, b);
+          } else {
+            indices.push(a, b, c);
+          }
         }
       }
     }
@@ -1297,35 +2945,145 @@ const buildPreviewMesh = (oc: any, shape: any): PreviewMeshData => {
   return { positions, indices };
 };
 
-export const buildStepAndPreviewMesh = async (params: ShapeParams) => {
-  const effectiveParams = normalizeParamsForCad(params);
-  const oc = await getOc();
-  const base = buildBox(oc, effectiveParams);
-
-  let shape = base;
-  let lid: any = null;
-  if (effectiveParams.includeLid) {
-    const { wall } = resolveThickness(effectiveParams);
-    const baseOuter = {
-      width: effectiveParams.insideWidth + wall * 2,
-      depth: effectiveParams.insideDepth + wall * 2
-    };
-    lid = buildLid(oc, effectiveParams, baseOuter);
-    shape = makeCompound(oc, [base, lid]);
-  }
+export const buildStepAndPreviewMesh = async (
+  params: ShapeParams,
+  onProgress?: BuildProgress
+) => {
+  const effectiveParams = paramsForBuild(params);
+  const oc = await loadOc(onProgress);
+  const { base, lid } = await buildParts(oc, effectiveParams, onProgress);
+  const shape = lid ? makeCompound(oc, [base, lid]) : base;
 
+  await onProgress?.("mesh");
   const meshes: PreviewMeshes = {
     box: buildPreviewMesh(oc, base)
   };
   if (lid) {
     meshes.lid = buildPreviewMesh(oc, lid);
   }
+  if (isStackable(effectiveParams)) {
+    // The foot sinks one step into the rim of the box or lid below.
+    meshes.stackHeight = shapeBounds(oc, lid ?? base)[5] - effectiveParams.stackStepHeight;
+  }
+  await onProgress?.("step");
   const step = writeStep(oc, shape);
   return { step, mesh: meshes };
 };
 
+export const buildStlFiles = async (
+  params: ShapeParams,
+  layout: StlLayout,
+  onProgress?: BuildProgress
+): Promise<StlFile[]> => {
+  const effectiveParams = paramsForBuild(params);
+  const oc = await loadOc(onProgress);
+  const { base, lid } = await buildParts(oc, effectiveParams, onProgress);
+
+  await onProgress?.("mesh");
+  return writePartsStl(oc, effectiveParams, base, lid, layout);
+};
+
+const writePartsStl = (
+  oc: any,
+  effectiveParams: ShapeParams,
+  base: any,
+  lid: any,
+  layout: StlLayout
+): StlFile[] => {
+  const boxMesh = buildPreviewMesh(oc, base, exportTolerance);
+  const lidMesh = lid ? buildPreviewMesh(oc, lid, exportTolerance) : null;
+
+  if (!lidMesh) {
+    return [{ filename: "box.stl", data: writeBinaryStl([boxMesh], "box") }];
+  }
+  if (layout === "combined") {
+    const meshes = isHinged(effectiveParams)
+      ? [boxMesh, lidMesh]
+      : arrangeInRow([boxMesh, lidMesh]);
+    return [
+      {
+        filename: "box-and-lid.stl",
+        data: writeBinaryStl(meshes, "box and lid")
+      }
+    ];
+  }
+  return [
+    { filename: "box.stl", data: writeBinaryStl([boxMesh], "box") },
+    { filename: "lid.stl", data: writeBinaryStl([lidMesh], "lid") }
+  ];
+};
+
+export const build3mfFile = async (
+  params: ShapeParams,
+  onProgress?: BuildProgress
+) => {
+  const effectiveParams = paramsForBuild(params);
+  const oc = await loadOc(onProgress);
+  const { base, lid } = await buildParts(oc, effectiveParams, onProgress);
+
+  await onProgress?.("mesh");
+  const parts = [{ name: "Box", mesh: buildPreviewMesh(oc, base, exportTolerance) }];
+  if (lid) {
+    parts.push({ name: "Lid", mesh: buildPreviewMesh(oc, lid, exportTolerance) });
+  }
+  return write3mf(
+    parts,
+    {
+      shapeParams: JSON.stringify(effectiveParams),
+      search: paramsToSearch(effectiveParams)
+    },
+    !isHinged(effectiveParams)
+  );
+};
+
+export type BatchOptions = {
+  stl: boolean;
+  layout: StlLayout;
+};
+
+// Builds every row of a batch into one zip: a STEP file per box, named after
+// the row, optionally with its STL files, and report.txt listing the rows
+// that failed. A failing row is reported and skipped rather than ending the
+// batch.
+export const buildBatchZip = async (
+  rows: BatchRow[],
+  options: BatchOptions,
+  onProgress?: BuildProgress
+) => {
+  // Whatever the progress callback throws, such as a cancel, ends the whole
+  // batch instead of being reported against the row being built.
+  const stops: unknown[] = [];
+  const rowProgress: BuildProgress = async (stage) => {
+    try {
+      await onProgress?.(stage);
+    } catch (error) {
+      stops.push(error);
+      throw error;
+    }
+  };
+  const oc = await loadOc(onProgress);
+  const entries = await collectBatchFiles(
+    rows,
+    async (row) => {
+      const effectiveParams = paramsForBuild(row.params);
+      const { base, lid } = await buildParts(oc, effectiveParams, rowProgress);
+      await rowProgress("step");
+      const files: ZipEntry[] = [{ name: `${row.name}.step`, data: writePartsStep(oc, base, lid) }];
+      if (options.stl) {
+        await rowProgress("mesh");
+        writePartsStl(oc, effectiveParams, base, lid, options.layout).forEach((file) => {
+          files.push({ name: `${row.name}-${file.filename}`, data: file.data });
+        });
+      }
+      return files;
+    },
+    stops
+  );
+  return writeZip(entries);
+};
+
 export const buildDebugInnerTool = async (params: ShapeParams) => {
-  const effectiveParams = normalizeParamsForCad(params);
+  const effectiveParams = paramsForBuild(params);
   if (effectiveParams.shape !== "box" || !effectiveParams.includeInsideRadius) {
     return null;
   }
@@ -0,0 +1,100 @@
+import {
+  build3mfFile,
+  buildBatchZip,
+  buildStepAndPreviewMesh,
+  buildStlFiles,
+  clearDebugLog,
+  readDebugLog,
+  type BuildStage
+} from "./cad";
+import type { CadJob, CadRequest, CadResponse } from "./cadProtocol";
+
+// Ids of jobs that are queued or running, and those of them asked to cancel.
+const active = new Set<number>();
+const cancelled = new Set<number>();
+
+class CancelledBuild extends Error {}
+
+const post = (message: CadResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// OCC calls are synchronous, so a cancel message can only be seen between
+// stages. Yielding a macrotask lets queued messages run before checking.
+const yieldToMessages = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const runJob = (job: CadJob, onProgress: (stage: BuildStage) => Promise<void>) => {
+  switch (job.kind) {
+    case "preview":
+      return buildStepAndPreviewMesh(job.params, onProgress);
+    case "stl":
+      return buildStlFiles(job.params, job.layout, onProgress);
+    case "3mf":
+      return build3mfFile(job.params, onProgress);
+    case "batch":
+      return buildBatchZip(job.rows, { stl: job.stl, layout: job.layout }, onProgress);
+  }
+};
+
+const transferablesOf = (result: Awaited<ReturnType<typeof runJob>>) => {
+  if (result instanceof Uint8Array) {
+    return [result.buffer];
+  }
+  if (Array.isArray(result)) {
+    return result.map((file) => file.data.buffer);
+  }
+  return [result.step.buffer];
+};
+
+const handleRun = async (id: number, job: CadJob) => {
+  const onProgress = async (stage: BuildStage) => {
+    await yieldToMessages();
+    if (cancelled.has(id)) {
+      throw new CancelledBuild();
+    }
+    post({ type: "progress", id, stage });
+  };
+
+  // The log only describes the job that failed.
+  clearDebugLog();
+  try {
+    const result = await runJob(job, onProgress);
+    if (cancelled.has(id)) {
+      post({ type: "cancelled", id });
+      return;
+    }
+    post({ type: "result", id, result }, transferablesOf(result));
+  } catch (err) {
+    if (err instanceof CancelledBuild) {
+      post({ type: "cancelled", id });
+      return;
+    }
+    post({
+      type: "error",
+      id,
+      message: err instanceof Error ? err.message : "CAD build failed.",
+      debugLog: readDebugLog()
+    });
+  } finally {
+    active.delete(id);
+    cancelled.delete(id);
+  }
+};
+
+// Jobs run one at a time; later requests wait here while earlier ones
+// finish or notice they were cancelled.
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<CadRequest>) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    // A job that already settled has nothing left to cancel.
+    if (active.has(request.id)) {
+      cancelled.add(request.id);
+    }
+    return;
+  }
+  active.add(request.id);
+  queue = queue.then(() => handleRun(request.id, request.job));
+};
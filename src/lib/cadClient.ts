@@ -0,0 +1,102 @@
+import type { BuildStage } from "./cad";
+import type { CadJob, CadJobResult, CadRequest, CadResponse } from "./cadProtocol";
+
+export class CadBuildError extends Error {
+  debugLog: string[];
+
+  constructor(message: string, debugLog: string[] = []) {
+    super(message);
+    this.name = "CadBuildError";
+    this.debugLog = debugLog;
+  }
+}
+
+type PendingJob = {
+  resolve: (result: CadJobResult[CadJob["kind"]]) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (stage: BuildStage) => void;
+};
+
+type RunOptions = {
+  signal?: AbortSignal;
+  onProgress?: (stage: BuildStage) => void;
+};
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+const abortError = () => new DOMException("CAD build was cancelled.", "AbortError");
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL("./cad.worker.ts", import.meta.url), {
+      type: "module"
+    });
+    worker.onmessage = (event: MessageEvent<CadResponse>) => {
+      const response = event.data;
+      const job = pending.get(response.id);
+      if (!job) {
+        return;
+      }
+      if (response.type === "progress") {
+        job.onProgress?.(response.stage);
+        return;
+      }
+      pending.delete(response.id);
+      if (response.type === "result") {
+        job.resolve(response.result);
+      } else if (response.type === "cancelled") {
+        job.reject(abortError());
+      } else {
+        job.reject(new CadBuildError(response.message, response.debugLog));
+      }
+    };
+    worker.onerror = (event) => {
+      const error = new CadBuildError(event.message || "CAD worker crashed.");
+      pending.forEach((job) => job.reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Runs a job in the CAD worker. Aborting the signal asks the worker to drop
+// the job at its next stage boundary and rejects with an AbortError.
+export const runCadJob = <K extends CadJob["kind"]>(
+  job: Extract<CadJob, { kind: K }>,
+  options: RunOptions = {}
+): Promise<CadJobResult[K]> => {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+  const target = getWorker();
+  const id = nextId;
+  nextId += 1;
+
+  return new Promise<CadJobResult[K]>((resolve, reject) => {
+    // The worker answers each id with the result of that job's kind.
+    pending.set(id, { resolve: resolve as PendingJob["resolve"], reject, onProgress });
+    signal?.addEventListener(
+      "abort",
+      () => {
+        if (!pending.has(id)) {
+          return;
+        }
+        pending.delete(id);
+        const cancel: CadRequest = { type: "cancel", id };
+        target.postMessage(cancel);
+        reject(abortError());
+      },
+      { once: true }
+    );
+    const request: CadRequest = { type: "run", id, job };
+    target.postMessage(request);
+  });
+};
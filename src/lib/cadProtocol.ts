@@ -0,0 +1,26 @@
+import type { BatchRow } from "./batch";
+import type { BuildStage, PreviewMeshes, StlFile, StlLayout } from "./cad";
+import type { ShapeParams } from "./params";
+
+export type CadJob =
+  | { kind: "preview"; params: ShapeParams }
+  | { kind: "stl"; params: ShapeParams; layout: StlLayout }
+  | { kind: "3mf"; params: ShapeParams }
+  | { kind: "batch"; rows: BatchRow[]; stl: boolean; layout: StlLayout };
+
+export type CadJobResult = {
+  preview: { step: Uint8Array; mesh: PreviewMeshes };
+  stl: StlFile[];
+  "3mf": Uint8Array;
+  batch: Uint8Array;
+};
+
+export type CadRequest =
+  | { type: "run"; id: number; job: CadJob }
+  | { type: "cancel"; id: number };
+
+export type CadResponse =
+  | { type: "progress"; id: number; stage: BuildStage }
+  | { type: "result"; id: number; result: CadJobResult[CadJob["kind"]] }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; message: string; debugLog: string[] };
@@ -1,5 +1,23 @@
-export const downloadBlob = (data: Uint8Array, filename: string) => {
-  const blob = new Blob([data], { type: "application/step" });
+const mimeTypes: Record<string, string> = {
+  step: "application/step",
+  stp: "application/step",
+  stl: "model/stl",
+  "3mf": "model/3mf",
+  json: "application/json",
+  zip: "application/zip"
+};
+
+const mimeTypeFor = (filename: string) => {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return mimeTypes[extension] ?? "application/octet-stream";
+};
+
+export const downloadBlob = (
+  data: Uint8Array,
+  filename: string,
+  type = mimeTypeFor(filename)
+) => {
+  const blob = new Blob([data], { type });
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { layoutText, missingGlyphs } from "./font";
+
+const holes = (text: string) =>
+  layoutText(text, 10).contours.filter((contour) => contour.hole).length;
+
+describe("layoutText", () => {
+  it("marks the counters of letters as holes", () => {
+    expect(holes("O")).toBe(1);
+    expect(holes("B")).toBe(2);
+    expect(holes("8")).toBe(2);
+  });
+
+  it("keeps separate parts of a glyph solid", () => {
+    const text = layoutText("i", 10);
+    expect(text.contours.length).toBe(2);
+    expect(text.contours.every((contour) => !contour.hole)).toBe(true);
+  });
+
+  it("counts holes per glyph across a line", () => {
+    expect(holes("OIO")).toBe(2);
+    expect(holes("LIT")).toBe(0);
+  });
+
+  it("centres the text on the origin", () => {
+    const text = layoutText("Box", 12);
+    const points = text.contours.flatMap((contour) => contour.points);
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+    expect(Math.min(...xs) + Math.max(...xs)).toBeCloseTo(0);
+    expect(Math.min(...ys) + Math.max(...ys)).toBeCloseTo(0);
+    expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(text.width);
+    expect(Math.max(...ys) - Math.min(...ys)).toBeCloseTo(text.height);
+  });
+
+  it("scales with the size", () => {
+    const small = layoutText("Box", 10);
+    const large = layoutText("Box", 20);
+    expect(large.width).toBeCloseTo(small.width * 2);
+    expect(large.height).toBeCloseTo(small.height * 2);
+  });
+
+  it("returns an empty outline for text it cannot draw", () => {
+    expect(layoutText("", 10)).toEqual({ contours: [], width: 0, height: 0 });
+    expect(layoutText("✓", 10)).toEqual({ contours: [], width: 0, height: 0 });
+  });
+});
+
+describe("missingGlyphs", () => {
+  it("lists each character the font lacks once", () => {
+    expect(missingGlyphs("A✓B✓")).toEqual(["✓"]);
+    expect(missingGlyphs("Screws 3mm")).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import helvetiker from "three/examples/fonts/helvetiker_regular.typeface.json";
+import type { Point2 } from "./polygon";
+
+// Label text uses the Helvetiker typeface that ships with three.js. Glyph
+// outlines are typeface.js paths in font units: "m x y" starts a contour,
+// "l x y" draws a line, and "q" and "b" draw quadratic and cubic curves with
+// the end point listed before the control points.
+type TypefaceGlyph = { ha: number; o?: string };
+
+type Typeface = {
+  resolution: number;
+  glyphs: Record<string, TypefaceGlyph | undefined>;
+};
+
+const typeface = helvetiker as unknown as Typeface;
+
+// Straight segments each curve is flattened into.
+const curveSegments = 6;
+
+export type TextContour = {
+  points: Point2[];
+  // Holes are cut out of the contours around them, as in the counter of an O.
+  hole: boolean;
+};
+
+export type TextOutline = {
+  contours: TextContour[];
+  width: number;
+  height: number;
+};
+
+// Characters in `text` that the label font cannot draw.
+export const missingGlyphs = (text: string) =>
+  Array.from(new Set(Array.from(text))).filter((char) => !typeface.glyphs[char]);
+
+const glyphContours = (glyph: TypefaceGlyph, scale: number, offsetX: number) => {
+  const tokens = (glyph.o ?? "").split(" ");
+  const contours: Point2[][] = [];
+  let current: Point2[] = [];
+  let last: Point2 = [0, 0];
+  const read = (index: number): Point2 => [
+    Number(tokens[index]) * scale + offsetX,
+    Number(tokens[index + 1]) * scale
+  ];
+  const push = (point: Point2) => {
+    if (Math.hypot(point[0] - last[0], point[1] - last[1]) > 1e-6) {
+      current.push(point);
+      last = point;
+    }
+  };
+  let i = 0;
+  while (i < tokens.length) {
+    const action = tokens[i];
+    if (action === "m") {
+      if (current.length) contours.push(current);
+      last = read(i + 1);
+      current = [last];
+      i += 3;
+    } else if (action === "l") {
+      push(read(i + 1));
+      i += 3;
+    } else if (action === "q") {
+      const start = last;
+      const end = read(i + 1);
+      const control = read(i + 3);
+      for (let step = 1; step <= curveSegments; step += 1) {
+        const t = step / curveSegments;
+        const u = 1 - t;
+        push([
+          u * u * start[0] + 2 * u * t * control[0] + t * t * end[0],
+          u * u * start[1] + 2 * u * t * control[1] + t * t * end[1]
+        ]);
+      }
+      i += 5;
+    } else if (action === "b") {
+      const start = last;
+      const end = read(i + 1);
+      const c1 = read(i + 3);
+      const c2 = read(i + 5);
+      for (let step = 1; step <= curveSegments; step += 1) {
+        const t = step / curveSegments;
+        const u = 1 - t;
+        push([
+          u * u * u * start[0] + 3 * u * u * t * c1[0] + 3 * u * t * t * c2[0] + t * t * t * end[0],
+          u * u * u * start[1] + 3 * u * u * t * c1[1] + 3 * u * t * t * c2[1] + t * t * t * end[1]
+        ]);
+      }
+      i += 7;
+    } else {
+      i += 1;
+    }
+  }
+  if (current.length) contours.push(current);
+  return contours
+    .map((points) => {
+      // Outlines usually return to their start point; the wire closes itself.
+      const [first] = points;
+      const end = points[points.length - 1];
+      return Math.hypot(first[0] - end[0], first[1] - end[1]) < 1e-6
+        ? points.slice(0, -1)
+        : points;
+    })
+    .filter((points) => points.length >= 3);
+};
+
+const containsPoint = (polygon: Point2[], [x, y]: Point2) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Single line of text as closed polylines, `size` mm to the em and centred on
+// the origin. A contour nested inside an odd number of others is a hole.
+export const layoutText = (text: string, size: number): TextOutline => {
+  const scale = size / typeface.resolution;
+  const contours: TextContour[] = [];
+  let offsetX = 0;
+  Array.from(text).forEach((char) => {
+    const glyph = typeface.glyphs[char];
+    if (!glyph) return;
+    const outlines = glyphContours(glyph, scale, offsetX);
+    outlines.forEach((points, index) => {
+      const depth = outlines.filter(
+        (other, otherIndex) => otherIndex !== index && containsPoint(other, points[0])
+      ).length;
+      contours.push({ points, hole: depth % 2 === 1 });
+    });
+    offsetX += glyph.ha * scale;
+  });
+  const all = contours.flatMap((contour) => contour.points);
+  if (!all.length) {
+    return { contours: [], width: 0, height: 0 };
+  }
+  const xs = all.map(([x]) => x);
+  const ys = all.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  return {
+    contours: contours.map((contour) => ({
+      ...contour,
+      points: contour.points.map(([x, y]): Point2 => [x - cx, y - cy])
+    })),
+    width: maxX - minX,
+    height: maxY - minY
+  };
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  LibraryFormatError,
+  exportLibrary,
+  readLibraryFile,
+  type SavedDesign
+} from "./library";
+import { defaultCutout, defaultParams } from "./params";
+
+const libraryWith = (designs: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: "box-builder-library", version: 1, designs, ...extra });
+
+describe("readLibraryFile", () => {
+  it("rejects files that are not a design library", () => {
+    expect(() => readLibraryFile("{")).toThrow(LibraryFormatError);
+    expect(() => readLibraryFile("{")).toThrow("The file is not valid JSON.");
+    expect(() => readLibraryFile(JSON.stringify({ designs: [] }))).toThrow(
+      "The file is not a box design library."
+    );
+    expect(() => readLibraryFile(libraryWith([], { version: 2 }))).toThrow(
+      "The library was saved by a newer version of the app."
+    );
+  });
+
+  it("gives every design a new id and fills in missing names", () => {
+    const designs = readLibraryFile(libraryWith([{ name: "Tray" }, { name: " " }, "junk"]));
+    expect(designs.map((design) => design.name)).toEqual(["Tray", "Imported design 2"]);
+    expect(new Set(designs.map((design) => design.id)).size).toBe(2);
+  });
+
+  it("keeps only inline image thumbnails", () => {
+    const designs = readLibraryFile(
+      libraryWith([
+        { thumbnail: "data:image/png;base64,AAAA" },
+        { thumbnail: "https://example.com/tracker.png" },
+        { thumbnail: "javascript:alert(1)" },
+        { thumbnail: 42 }
+      ])
+    );
+    expect(designs.map((design) => design.thumbnail)).toEqual([
+      "data:image/png;base64,AAAA",
+      null,
+      null,
+      null
+    ]);
+  });
+
+  it("reads parameters field by field, keeping defaults for the rest", () => {
+    const [design] = readLibraryFile(
+      libraryWith([
+        {
+          params: {
+            insideWidth: 80,
+            insideDepth: "wide",
+            lidStyle: "teleport",
+            includeLid: false,
+            unknownField: 1
+          }
+        }
+      ])
+    );
+    expect(design.params).toEqual({
+      ...defaultParams,
+      insideWidth: 80,
+      includeLid: false
+    });
+  });
+
+  it("reads cutouts with the same checks", () => {
+    const [design] = readLibraryFile(
+      libraryWith([
+        { params: { cutouts: [{ wall: "left", width: "big", x: 4 }, null] } }
+      ])
+    );
+    expect(design.params.cutouts).toEqual([{ ...defaultCutout, wall: "left", x: 4 }]);
+  });
+
+  it("keeps numbers exactly as they were saved", () => {
+    const [design] = readLibraryFile(
+      libraryWith([
+        {
+          params: {
+            insideWidth: 12.34567,
+            cutouts: [{ wall: "top", shape: "slot", x: 1.23456 }]
+          }
+        }
+      ])
+    );
+    expect(design.params.insideWidth).toBe(12.34567);
+    expect(design.params.cutouts).toEqual([{ ...defaultCutout, shape: "slot", x: 1.23456 }]);
+  });
+
+  it("reads back what exportLibrary writes", () => {
+    const saved: SavedDesign = {
+      id: "local",
+      name: "Parts bin",
+      thumbnail: null,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-02T00:00:00.000Z",
+      params: { ...defaultParams, insideWidth: 55, lidStyle: "plug" }
+    };
+    const [design] = readLibraryFile(exportLibrary([saved]));
+    expect({ ...design, id: saved.id }).toEqual(saved);
+  });
+});
@@ -0,0 +1,234 @@
+import {
+  defaultCutout,
+  defaultParams,
+  paramsToSearch,
+  parseParams,
+  type ShapeParams,
+  type WallCutout
+} from "./params";
+
+// Designs saved in the browser. Each keeps the full parameter set, so a
+// design reopens exactly as it was saved, plus a preview thumbnail as a data
+// URL. Timestamps are ISO strings so exported files stay readable.
+export type SavedDesign = {
+  id: string;
+  name: string;
+  thumbnail: string | null;
+  createdAt: string;
+  updatedAt: string;
+  params: ShapeParams;
+};
+
+// Shared catalogue file. Ids are local to one browser and left out; imported
+// designs get new ones.
+export type LibraryFile = {
+  format: typeof libraryFormat;
+  version: number;
+  designs: Omit<SavedDesign, "id">[];
+};
+
+export class LibraryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LibraryFormatError";
+  }
+}
+
+const libraryFormat = "box-builder-library";
+const libraryVersion = 1;
+
+const dbName = "box-builder";
+const storeName = "designs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const designStore = async (mode: IDBTransactionMode) =>
+  (await openDb()).transaction(storeName, mode).objectStore(storeName);
+
+const now = () => new Date().toISOString();
+
+// Newest first. Parameters are read the same way as imported ones, so
+// designs saved by an older version pick up defaults for newer fields.
+export const listDesigns = async () => {
+  const designs = await settle<SavedDesign[]>((await designStore("readonly")).getAll());
+  return designs
+    .map((design) => ({ ...design, params: readParams(design.params) }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+const getDesign = async (id: string) => {
+  const design = await settle<SavedDesign | undefined>(
+    (await designStore("readonly")).get(id)
+  );
+  if (!design) {
+    throw new Error("That design is no longer in the library.");
+  }
+  return design;
+};
+
+const putDesign = async (design: SavedDesign) => {
+  await settle((await designStore("readwrite")).put(design));
+  return design;
+};
+
+export const createDesign = (name: string, params: ShapeParams, thumbnail: string | null) => {
+  const time = now();
+  return putDesign({
+    id: crypto.randomUUID(),
+    name,
+    thumbnail,
+    createdAt: time,
+    updatedAt: time,
+    params
+  });
+};
+
+// Overwrites the parameters and thumbnail of a saved design, keeping its
+// name and creation time.
+export const updateDesign = async (
+  id: string,
+  params: ShapeParams,
+  thumbnail: string | null
+) => putDesign({ ...(await getDesign(id)), params, thumbnail, updatedAt: now() });
+
+export const renameDesign = async (id: string, name: string) =>
+  putDesign({ ...(await getDesign(id)), name, updatedAt: now() });
+
+export const duplicateDesign = async (id: string) => {
+  const design = await getDesign(id);
+  return createDesign(`${design.name} copy`, design.params, design.thumbnail);
+};
+
+export const deleteDesign = async (id: string) => {
+  await settle((await designStore("readwrite")).delete(id));
+};
+
+export const exportLibrary = (designs: SavedDesign[]) => {
+  const file: LibraryFile = {
+    format: libraryFormat,
+    version: libraryVersion,
+    designs: designs.map(({ id: _id, ...design }) => design)
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// A value is usable when it has the type of its default; numbers also have
+// to be finite.
+const isUsable = (fallback: unknown, value: unknown) =>
+  typeof value === typeof fallback && (typeof value !== "number" || Number.isFinite(value));
+
+// Whether the app still offers a choice: a shared link carrying it reads it
+// back unchanged rather than falling back to the default.
+const isOffered = (params: ShapeParams, read: (params: ShapeParams) => unknown, value: string) =>
+  read(parseParams(paramsToSearch(params))) === value;
+
+// Parameters from a file or the store may come from an older or newer
+// version of the app, so each field is taken only when it is usable and, for
+// a choice, still offered; the rest keep their defaults. Values are taken as
+// they are, so a design reopens exactly as it was saved.
+const readParams = (value: unknown): ShapeParams => {
+  const source = isRecord(value) ? value : {};
+  const params: Record<string, unknown> = { ...defaultParams };
+  (Object.keys(defaultParams) as (keyof ShapeParams)[]).forEach((key) => {
+    const field = source[key];
+    if (
+      key !== "cutouts" &&
+      isUsable(defaultParams[key], field) &&
+      (typeof field !== "string" ||
+        isOffered({ ...defaultParams, [key]: field }, (read) => read[key], field))
+    ) {
+      params[key] = field;
+    }
+  });
+  params.cutouts = Array.isArray(source.cutouts)
+    ? source.cutouts.filter(isRecord).map((cutout) => {
+        const next: Record<string, unknown> = { ...defaultCutout };
+        (Object.keys(defaultCutout) as (keyof WallCutout)[]).forEach((key) => {
+          const field = cutout[key];
+          if (
+            isUsable(defaultCutout[key], field) &&
+            (typeof field !== "string" ||
+              isOffered(
+                { ...defaultParams, cutouts: [{ ...defaultCutout, [key]: field }] },
+                (read) => read.cutouts[0][key],
+                field
+              ))
+          ) {
+            next[key] = field;
+          }
+        });
+        return next as WallCutout;
+      })
+    : [];
+  return params as ShapeParams;
+};
+
+// Only inline images are kept as thumbnails, so showing a shared library
+// never fetches anything from elsewhere.
+const readThumbnail = (value: unknown) =>
+  typeof value === "string" && value.startsWith("data:image/") ? value : null;
+
+// Designs in a library file, checked and given new ids.
+export const readLibraryFile = (text: string): SavedDesign[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new LibraryFormatError("The file is not valid JSON.");
+  }
+  if (!isRecord(file) || file.format !== libraryFormat || !Array.isArray(file.designs)) {
+    throw new LibraryFormatError("The file is not a box design library.");
+  }
+  if (typeof file.version !== "number" || file.version > libraryVersion) {
+    throw new LibraryFormatError("The library was saved by a newer version of the app.");
+  }
+  const time = now();
+  return file.designs.filter(isRecord).map(
+    (design, index): SavedDesign => ({
+      id: crypto.randomUUID(),
+      name:
+        typeof design.name === "string" && design.name.trim()
+          ? design.name
+          : `Imported design ${index + 1}`,
+      thumbnail: readThumbnail(design.thumbnail),
+      createdAt: typeof design.createdAt === "string" ? design.createdAt : time,
+      updatedAt: typeof design.updatedAt === "string" ? design.updatedAt : time,
+      params: readParams(design.params)
+    })
+  );
+};
+
+// Adds every design in a library file as a new entry and returns how many
+// were added.
+export const importLibrary = async (text: string) => {
+  const designs = readLibraryFile(text);
+  const store = await designStore("readwrite");
+  await Promise.all(designs.map((design) => settle(store.put(design))));
+  return designs.length;
+};
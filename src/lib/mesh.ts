@@ -0,0 +1,98 @@
+import type { PreviewMeshData } from "./cad";
+
+export type MeshBounds = {
+  min: [number, number, number];
+  max: [number, number, number];
+};
+
+export const meshBounds = (meshes: PreviewMeshData[]): MeshBounds => {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  meshes.forEach((mesh) => {
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      for (let axis = 0; axis < 3; axis += 1) {
+        const value = mesh.positions[i + axis];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    }
+  });
+  return { min, max };
+};
+
+export const translateMesh = (
+  mesh: PreviewMeshData,
+  x: number,
+  y: number,
+  z: number
+): PreviewMeshData => {
+  const positions = mesh.positions.slice();
+  for (let i = 0; i < positions.length; i += 3) {
+    positions[i] += x;
+    positions[i + 1] += y;
+    positions[i + 2] += z;
+  }
+  return { positions, indices: mesh.indices };
+};
+
+// Offsets that lay meshes out left to right along +X with a gap between
+// their bounding boxes, all resting on z = 0, so parts exported together
+// never overlap.
+export const rowOffsets = (meshes: PreviewMeshData[], gap = 10) => {
+  let cursor = 0;
+  return meshes.map((mesh): [number, number, number] => {
+    const bounds = meshBounds([mesh]);
+    if (!Number.isFinite(bounds.min[0])) {
+      return [0, 0, 0];
+    }
+    const offset: [number, number, number] = [
+      cursor - bounds.min[0],
+      -bounds.min[1],
+      -bounds.min[2]
+    ];
+    cursor += bounds.max[0] - bounds.min[0] + gap;
+    return offset;
+  });
+};
+
+export const arrangeInRow = (meshes: PreviewMeshData[], gap = 10) => {
+  const offsets = rowOffsets(meshes, gap);
+  return meshes.map((mesh, index) => translateMesh(mesh, ...offsets[index]));
+};
+
+// Tessellation duplicates vertices along face boundaries. Formats that index
+// shared vertices (3MF) need them merged so the mesh reads as manifold.
+export const weldMesh = (
+  mesh: PreviewMeshData,
+  tolerance = 1e-4
+): PreviewMeshData => {
+  const positions: number[] = [];
+  const remap: number[] = [];
+  const lookup = new Map<string, number>();
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    const x = mesh.positions[i];
+    const y = mesh.positions[i + 1];
+    const z = mesh.positions[i + 2];
+    const key = `${Math.round(x / tolerance)},${Math.round(y / tolerance)},${Math.round(
+      z / tolerance
+    )}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = positions.length / 3;
+      positions.push(x, y, z);
+      lookup.set(key, index);
+    }
+    remap.push(index);
+  }
+
+  const indices: number[] = [];
+  for (let i = 0; i + 2 < mesh.indices.length; i += 3) {
+    const a = remap[mesh.indices[i]];
+    const b = remap[mesh.indices[i + 1]];
+    const c = remap[mesh.indices[i + 2]];
+    if (a !== b && b !== c && a !== c) {
+      indices.push(a, b, c);
+    }
+  }
+  return { positions, indices };
+};
@@ -0,0 +1,296 @@
+import { describe, expect, it } from "vitest";
+import {
+  cutoutCenter,
+  defaultCutout,
+  defaultParams,
+  dividerLayout,
+  keyholeLayout,
+  validateParams,
+  ventLayout,
+  type ShapeParams,
+  type WallCutout
+} from "./params";
+
+const paramsWith = (overrides: Partial<ShapeParams>): ShapeParams => ({
+  ...defaultParams,
+  ...overrides
+});
+
+// 60 x 40 x 30 mm cavity with 2 mm walls and floor, so the rim is at 32 mm.
+const box = paramsWith({ insideWidth: 60, insideDepth: 40, insideHeight: 30, thickness: 2 });
+
+const messagesFor = (params: ShapeParams, field: keyof ShapeParams) =>
+  validateParams(params)
+    .issues.filter((issue) => issue.field === field)
+    .map((issue) => issue.message);
+
+describe("dividerLayout", () => {
+  it("splits the cavity into equal cells between the dividers", () => {
+    const layout = dividerLayout(
+      paramsWith({
+        insideWidth: 62,
+        insideDepth: 41,
+        dividerColumns: 3,
+        dividerRows: 2,
+        dividerThickness: 1
+      })
+    );
+    expect(layout.columns).toEqual([
+      { offset: 0, size: 20 },
+      { offset: 21, size: 20 },
+      { offset: 42, size: 20 }
+    ]);
+    expect(layout.rows).toEqual([
+      { offset: 0, size: 20 },
+      { offset: 21, size: 20 }
+    ]);
+  });
+
+  it("sizes columns in proportion to the given widths", () => {
+    const layout = dividerLayout(
+      paramsWith({
+        insideWidth: 62,
+        dividerColumns: 2,
+        dividerThickness: 2,
+        dividerColumnWidths: "1, 2"
+      })
+    );
+    expect(layout.columns).toEqual([
+      { offset: 0, size: 20 },
+      { offset: 22, size: 40 }
+    ]);
+  });
+
+  it("ignores widths that do not match the column count", () => {
+    const layout = dividerLayout(
+      paramsWith({
+        insideWidth: 62,
+        dividerColumns: 2,
+        dividerThickness: 2,
+        dividerColumnWidths: "1, 2, 3"
+      })
+    );
+    expect(layout.columns.map((column) => column.size)).toEqual([30, 30]);
+  });
+
+  it("runs full-height dividers up to the inside height", () => {
+    const full = paramsWith({ insideHeight: 30, dividerHeight: 12, dividerFullHeight: true });
+    expect(dividerLayout(full).height).toBe(30);
+    expect(dividerLayout({ ...full, dividerFullHeight: false }).height).toBe(12);
+  });
+});
+
+describe("cutoutCenter", () => {
+  const cutout = (overrides: Partial<WallCutout>): WallCutout => ({
+    ...defaultCutout,
+    ...overrides
+  });
+
+  it("measures centred cutouts from the middle of the wall", () => {
+    expect(cutoutCenter(box, cutout({ x: 5, y: -4 }))).toEqual({
+      u: 37,
+      z: 12,
+      length: 64,
+      rim: 32
+    });
+  });
+
+  it("uses the depth for the side walls", () => {
+    expect(cutoutCenter(box, cutout({ wall: "left" })).length).toBe(44);
+  });
+
+  it("measures corner cutouts from the left end of the wall and the bed", () => {
+    const center = cutoutCenter(box, cutout({ origin: "corner", x: 10, y: 8 }));
+    expect(center.u).toBe(10);
+    expect(center.z).toBe(8);
+  });
+});
+
+describe("cutout validation", () => {
+  const withCutout = (overrides: Partial<ShapeParams>, y = 0) =>
+    messagesFor({ ...box, ...overrides, cutouts: [{ ...defaultCutout, y }] }, "cutouts");
+
+  it("accepts a cutout on an open wall", () => {
+    expect(withCutout({ includeLid: false })).toEqual([]);
+    expect(withCutout({ lidStyle: "hinge", hingeSide: "back" })).toEqual([]);
+  });
+
+  it("rejects cutouts under a sleeve lid", () => {
+    expect(withCutout({ lidStyle: "sleeve" })).toEqual([
+      "Cutout 1 is covered by the sleeve lid; use a plug or hinged lid with wall cutouts."
+    ]);
+  });
+
+  it("rejects cutouts behind the plug lid lip", () => {
+    expect(withCutout({ lidStyle: "plug", lipDepth: 3 })).toEqual([]);
+    expect(withCutout({ lidStyle: "plug", lipDepth: 3 }, 12)).toEqual([
+      "Cutout 1 is behind the plug lid lip; move it below the lip."
+    ]);
+  });
+
+  it("rejects cutouts reaching the sliding lid grooves", () => {
+    expect(withCutout({ lidStyle: "slide" }, 14)).toEqual([
+      "Cutout 1 runs into the lid grooves; keep it below the rim."
+    ]);
+  });
+
+  it("rejects cutouts crossing the rim of an open box", () => {
+    expect(withCutout({ includeLid: false }, 14)).toEqual(["Cutout 1 crosses the rim."]);
+  });
+});
+
+describe("ventLayout", () => {
+  const vents = paramsWith({
+    ...box,
+    includeInsideRadius: false,
+    ventFace: "lid",
+    ventPitch: 10,
+    ventHoleSize: 4,
+    ventMargin: 3
+  });
+
+  it("fills the lid with a grid of holes inside the margin", () => {
+    const { holes } = ventLayout({ ...vents, ventPattern: "circles" });
+    expect(holes.length).toBe(15);
+    expect(Math.max(...holes.map((hole) => Math.abs(hole.x)))).toBe(20);
+    expect(Math.max(...holes.map((hole) => Math.abs(hole.y)))).toBe(10);
+  });
+
+  it("runs slots along the longer side", () => {
+    const layout = ventLayout({ ...vents, ventPattern: "slots" });
+    expect(layout.alongX).toBe(true);
+    expect(layout.holes.map((hole) => hole.y)).toEqual([-15, -5, 5, 15]);
+    expect(layout.holes.every((hole) => hole.length === 54)).toBe(true);
+  });
+
+  it("keeps lid vents inside a plug lid lip", () => {
+    const layout = ventLayout({ ...vents, ventPattern: "slots", lidStyle: "plug" });
+    expect(layout.holes[0].length).toBeCloseTo(51.2);
+  });
+
+  it("keeps every hole inside a round lid", () => {
+    const round = {
+      ...vents,
+      shape: "cylinder" as const,
+      insideDiameter: 50,
+      ventPattern: "hex" as const
+    };
+    const { holes } = ventLayout(round);
+    expect(holes.length).toBeGreaterThan(0);
+    holes.forEach((hole) => {
+      expect(Math.hypot(Math.abs(hole.x) + 2, Math.abs(hole.y) + 2)).toBeLessThanOrEqual(22);
+    });
+  });
+
+  it("keeps wall vents below a plug lid lip", () => {
+    // Holes are measured from the middle of the cavity, 17 mm up; the 3 mm
+    // lip starts at 29 mm, more than the 1 mm margin below the 32 mm rim.
+    const wall = { ...vents, ventFace: "front" as const, ventPattern: "circles" as const };
+    const highest = (params: ShapeParams) =>
+      17 + Math.max(...ventLayout(params).holes.map((hole) => hole.y + 2));
+    expect(highest({ ...wall, ventMargin: 1, includeLid: false })).toBe(29);
+    expect(highest({ ...wall, ventMargin: 1, lidStyle: "plug", lipDepth: 3 })).toBe(27.5);
+  });
+
+  it("returns no holes when the margin leaves no room", () => {
+    expect(ventLayout({ ...vents, ventPattern: "circles", ventMargin: 25 }).holes).toEqual([]);
+  });
+});
+
+describe("vent validation", () => {
+  const wallVents = (overrides: Partial<ShapeParams>) =>
+    messagesFor(
+      { ...box, ventPattern: "circles", ventFace: "front", ...overrides },
+      "ventFace"
+    );
+
+  it("rejects wall vents under a sleeve lid", () => {
+    expect(wallVents({ lidStyle: "sleeve" })).toEqual([
+      "The sleeve lid slides over the walls; put the vents in the lid instead."
+    ]);
+  });
+
+  it("rejects vents on the hinge wall", () => {
+    expect(wallVents({ lidStyle: "hinge", hingeSide: "front" })).toEqual([
+      "The hinge is on that wall; pick another face for the vents."
+    ]);
+  });
+
+  it("accepts wall vents with a lid that leaves the walls open", () => {
+    expect(wallVents({ lidStyle: "plug" })).toEqual([]);
+    expect(wallVents({ includeLid: false })).toEqual([]);
+  });
+});
+
+describe("keyholeLayout", () => {
+  const keyholes = paramsWith({
+    ...box,
+    includeLid: false,
+    keyholeFace: "back",
+    keyholeCount: 3,
+    keyholeSpacing: 20,
+    keyholeHeadDiameter: 9,
+    keyholeSlotLength: 10
+  });
+
+  it("centres the row along the back wall", () => {
+    const layout = keyholeLayout(keyholes);
+    expect(layout.positions).toEqual([12, 32, 52]);
+    expect(layout.length).toBe(64);
+    expect(layout.padWidth).toBe(13);
+    expect(layout.padLength).toBe(23);
+  });
+
+  it("centres the head and slot between the floor and the rim", () => {
+    const layout = keyholeLayout(keyholes);
+    expect(layout.span).toBe(30);
+    expect(layout.head).toBe(12);
+  });
+
+  it("keeps wall keyholes below a plug lid lip", () => {
+    const plug = { ...keyholes, includeLid: true, lidStyle: "plug" as const, lipDepth: 3 };
+    const layout = keyholeLayout(plug);
+    expect(layout.span).toBe(27);
+    expect(layout.head).toBe(10.5);
+  });
+
+  it("spans the depth of the cavity on the floor", () => {
+    const layout = keyholeLayout({ ...keyholes, keyholeFace: "floor" });
+    expect(layout.span).toBe(40);
+    expect(layout.head).toBe(17);
+  });
+
+  it("rounds the keyhole count", () => {
+    expect(keyholeLayout({ ...keyholes, keyholeCount: 1.6 }).positions).toEqual([22, 42]);
+  });
+});
+
+describe("keyhole validation", () => {
+  const keyholes = paramsWith({ ...box, includeLid: false, keyholeFace: "back" });
+  const spacingMessages = (keyholeCount: number, keyholeSpacing: number) =>
+    messagesFor({ ...keyholes, keyholeCount, keyholeSpacing }, "keyholeSpacing");
+
+  it("accepts a row that fits the wall", () => {
+    const validation = validateParams({ ...keyholes, keyholeCount: 2, keyholeSpacing: 30 });
+    expect(validation.hasErrors).toBe(false);
+  });
+
+  it("rejects rows running into the corners", () => {
+    expect(spacingMessages(3, 30)).toEqual([
+      "Keyholes run into the corners; use fewer or space them closer."
+    ]);
+  });
+
+  it("rejects pads that overlap", () => {
+    expect(spacingMessages(2, 10)).toEqual([
+      "Keyholes need at least 13 mm between them for their reinforcement."
+    ]);
+  });
+
+  it("rejects wall keyholes under a sleeve lid", () => {
+    const sleeve = { ...keyholes, includeLid: true, lidStyle: "sleeve" as const };
+    expect(messagesFor(sleeve, "keyholeFace")).toEqual([
+      "The sleeve lid slides over the back wall; put the keyholes in the floor."
+    ]);
+  });
+});
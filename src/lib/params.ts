@@ -1,14 +1,152 @@
-export type ShapeType = "box";
+import { layoutText, missingGlyphs } from "./font";
+import { maxPolygonSides, minPolygonSides } from "./polygon";
+
+export type ShapeType = "box" | "cylinder" | "polygon";
 export type ThicknessMode = "uniform" | "custom";
+export type LidStyle = "sleeve" | "plug" | "slide" | "hinge" | "screw";
+export type GrooveProfile = "rect" | "dovetail";
+export type SlideAxis = "width" | "depth";
+export type SizingMode = "inside" | "outside" | "gridfinity";
+export type HingeSide = "back" | "front" | "left" | "right";
+export type HingePin = "printed" | "separate";
+export type HingeLayout = "closed" | "open";
+export type WallSide = "front" | "back" | "left" | "right";
+export type LabelFace = "lid" | WallSide;
+export type LabelMode = "emboss" | "deboss";
+export type CutoutShape = "circle" | "rect" | "slot";
+export type VentPattern = "none" | "slots" | "hex" | "circles";
+export type CutoutOrigin = "corner" | "center";
+export type StandoffPattern = "none" | "pitch" | "holes";
+export type KeyholeFace = "none" | "back" | "floor";
+
+// Hole through one box wall. Width runs along the wall and height up it; a
+// circle takes its diameter from the width. x and y place the centre of the
+// hole as seen from outside, from the lower left corner of the wall or from
+// the middle of the wall below the rim.
+export type WallCutout = {
+  wall: WallSide;
+  shape: CutoutShape;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  origin: CutoutOrigin;
+};
 
 export type ShapeParams = {
   shape: ShapeType;
+  sizingMode: SizingMode;
+  gridUnitsX: number;
+  gridUnitsY: number;
+  gridUnitsZ: number;
+  gridMagnetHoles: boolean;
+  gridScrewHoles: boolean;
   includeLid: boolean;
+  lidStyle: LidStyle;
+  lipDepth: number;
+  lipThickness: number;
+  slideGrooveProfile: GrooveProfile;
+  slideGrooveDepth: number;
+  slideLidThickness: number;
+  slideAxis: SlideAxis;
+  hingeSide: HingeSide;
+  hingePin: HingePin;
+  hingeLayout: HingeLayout;
+  hingeKnuckles: number;
+  hingePinDiameter: number;
+  hingeClearance: number;
+  snapDetents: boolean;
+  snapBumpsPerSide: number;
+  snapBumpHeight: number;
+  snapEngagement: number;
+  // Cylindrical pockets for magnets in the corners of the box rim, with
+  // matching pockets under the lid top.
+  magnetPockets: boolean;
+  magnetDiameter: number;
+  magnetDepth: number;
+  threadPitch: number;
+  threadTurns: number;
+  threadDepth: number;
+  threadClearance: number;
+  dividerRows: number;
+  dividerColumns: number;
+  dividerThickness: number;
+  dividerFullHeight: boolean;
+  dividerHeight: number;
+  // Comma-separated relative column widths; empty means equal columns.
+  dividerColumnWidths: string;
   insideWidth: number;
   insideDepth: number;
   insideHeight: number;
+  insideDiameter: number;
+  polygonSides: number;
+  insideAcrossFlats: number;
+  // Outside size used in outside sizing mode, for the box alone or for the
+  // closed box with its lid.
+  outsideWidth: number;
+  outsideDepth: number;
+  outsideHeight: number;
+  outsideDiameter: number;
+  outsideAcrossFlats: number;
+  outsideIncludesLid: boolean;
   includeInsideRadius: boolean;
   insideRadius: number;
+  // Fillet radii for the horizontal outer edges; 0 leaves them sharp.
+  bottomFillet: number;
+  rimFillet: number;
+  lidFillet: number;
+  // 45 degree chamfer on the edges printed against the bed, against
+  // elephant's foot, and an inward lead-in chamfer on the lid opening.
+  bottomChamfer: number;
+  lidLeadIn: number;
+  // Text raised from or sunk into the lid top or one outer wall; empty text
+  // leaves the faces plain.
+  labelText: string;
+  labelSize: number;
+  labelFace: LabelFace;
+  labelMode: LabelMode;
+  labelDepth: number;
+  cutouts: WallCutout[];
+  // Grid of vent holes over the open part of the lid or one wall. The hole
+  // size is the slot width, hex across flats or circle diameter; the border is
+  // the solid web kept between neighbouring holes.
+  ventPattern: VentPattern;
+  ventFace: LabelFace;
+  ventPitch: number;
+  ventHoleSize: number;
+  ventMargin: number;
+  ventBorder: number;
+  // Stacking boxes step in to a foot at the bottom that drops into the box
+  // below, or into a rim raised on its lid.
+  stackable: boolean;
+  stackStepHeight: number;
+  stackClearance: number;
+  // Mounting bosses standing on the floor, at the corners of a rectangle of
+  // the given pitch or at a list of "x,y" hole positions separated by
+  // semicolons. Either pattern is centred on the floor. The screw hole runs
+  // down to the floor; an optional wider bore at the top takes a heat-set
+  // insert.
+  standoffPattern: StandoffPattern;
+  standoffPitchX: number;
+  standoffPitchY: number;
+  standoffHoles: string;
+  standoffDiameter: number;
+  standoffHeight: number;
+  standoffScrewDiameter: number;
+  standoffInsert: boolean;
+  standoffInsertDiameter: number;
+  standoffInsertDepth: number;
+  // Keyhole slots for hanging the box, in a row across the back wall or the
+  // floor. Each is a head hole with a narrower slot running up from it, cut
+  // through a reinforcement pad inside the box that carries the channel the
+  // screw head slides along.
+  keyholeFace: KeyholeFace;
+  keyholeCount: number;
+  keyholeSpacing: number;
+  keyholeHeadDiameter: number;
+  keyholeShankWidth: number;
+  keyholeSlotLength: number;
+  keyholeReinforcement: number;
   thicknessMode: ThicknessMode;
   thickness: number;
   wallThickness: number;
@@ -19,12 +157,94 @@ export type ShapeParams = {
 
 export const defaultParams: ShapeParams = {
   shape: "box",
+  sizingMode: "inside",
+  gridUnitsX: 2,
+  gridUnitsY: 1,
+  gridUnitsZ: 3,
+  gridMagnetHoles: false,
+  gridScrewHoles: false,
   includeLid: true,
+  lidStyle: "sleeve",
+  lipDepth: 3,
+  lipThickness: 1.2,
+  slideGrooveProfile: "rect",
+  slideGrooveDepth: 1,
+  slideLidThickness: 1.5,
+  slideAxis: "width",
+  hingeSide: "back",
+  hingePin: "printed",
+  hingeLayout: "closed",
+  hingeKnuckles: 5,
+  hingePinDiameter: 2,
+  hingeClearance: 0.3,
+  snapDetents: false,
+  snapBumpsPerSide: 1,
+  snapBumpHeight: 0.4,
+  snapEngagement: 3,
+  magnetPockets: false,
+  magnetDiameter: 6,
+  magnetDepth: 2,
+  threadPitch: 3,
+  threadTurns: 2,
+  threadDepth: 1,
+  threadClearance: 0.3,
+  dividerRows: 1,
+  dividerColumns: 1,
+  dividerThickness: 1.2,
+  dividerFullHeight: true,
+  dividerHeight: 5,
+  dividerColumnWidths: "",
   insideWidth: 10,
   insideDepth: 10,
   insideHeight: 10,
+  insideDiameter: 10,
+  polygonSides: 6,
+  insideAcrossFlats: 10,
+  outsideWidth: 20,
+  outsideDepth: 20,
+  outsideHeight: 20,
+  outsideDiameter: 20,
+  outsideAcrossFlats: 20,
+  outsideIncludesLid: false,
   includeInsideRadius: true,
   insideRadius: 2.5,
+  bottomFillet: 0,
+  rimFillet: 0,
+  lidFillet: 0,
+  bottomChamfer: 0,
+  lidLeadIn: 0,
+  labelText: "",
+  labelSize: 8,
+  labelFace: "lid",
+  labelMode: "emboss",
+  labelDepth: 0.6,
+  cutouts: [],
+  ventPattern: "none",
+  ventFace: "lid",
+  ventPitch: 5,
+  ventHoleSize: 3,
+  ventMargin: 3,
+  ventBorder: 1.2,
+  stackable: false,
+  stackStepHeight: 2,
+  stackClearance: 0.3,
+  standoffPattern: "none",
+  standoffPitchX: 58,
+  standoffPitchY: 49,
+  standoffHoles: "",
+  standoffDiameter: 6,
+  standoffHeight: 5,
+  standoffScrewDiameter: 2.5,
+  standoffInsert: false,
+  standoffInsertDiameter: 3.6,
+  standoffInsertDepth: 4,
+  keyholeFace: "none",
+  keyholeCount: 2,
+  keyholeSpacing: 40,
+  keyholeHeadDiameter: 9,
+  keyholeShankWidth: 4.5,
+  keyholeSlotLength: 10,
+  keyholeReinforcement: 3,
   thicknessMode: "uniform",
   thickness: 1.67,
   wallThickness: 1.67,
@@ -44,6 +264,88 @@ const readBoolean = (value: string | null, fallback: boolean) => {
   return value === "1" || value === "true";
 };
 
+const readLidStyle = (value: string | null): LidStyle =>
+  value === "plug" || value === "slide" || value === "hinge" || value === "screw"
+    ? value
+    : defaultParams.lidStyle;
+
+const readHingeSide = (value: string | null): HingeSide =>
+  value === "front" || value === "left" || value === "right"
+    ? value
+    : defaultParams.hingeSide;
+
+const readLabelFace = (value: string | null): LabelFace =>
+  value === "front" || value === "back" || value === "left" || value === "right"
+    ? value
+    : defaultParams.labelFace;
+
+const readStandoffPattern = (value: string | null): StandoffPattern =>
+  value === "pitch" || value === "holes" ? value : defaultParams.standoffPattern;
+
+const readKeyholeFace = (value: string | null): KeyholeFace =>
+  value === "back" || value === "floor" ? value : defaultParams.keyholeFace;
+
+const readVentPattern = (value: string | null): VentPattern =>
+  value === "slots" || value === "hex" || value === "circles"
+    ? value
+    : defaultParams.ventPattern;
+
+export const defaultCutout: WallCutout = {
+  wall: "front",
+  shape: "circle",
+  width: 6,
+  height: 4,
+  x: 0,
+  y: 0,
+  origin: "center"
+};
+
+const readWallSide = (value: string | undefined): WallSide =>
+  value === "back" || value === "left" || value === "right" ? value : defaultCutout.wall;
+
+const readCutoutShape = (value: string | undefined): CutoutShape =>
+  value === "rect" || value === "slot" ? value : defaultCutout.shape;
+
+// Cutouts travel in the URL as "wall,shape,width,height,x,y,origin" entries
+// separated by semicolons.
+const readCutouts = (value: string | null): WallCutout[] =>
+  (value ?? "")
+    .split(";")
+    .filter((entry) => entry.trim() !== "")
+    .map((entry) => {
+      const [wall, shape, width, height, x, y, origin] = entry.split(",");
+      return {
+        wall: readWallSide(wall),
+        shape: readCutoutShape(shape),
+        width: readNumber(width ?? null, defaultCutout.width),
+        height: readNumber(height ?? null, defaultCutout.height),
+        x: readNumber(x ?? null, defaultCutout.x),
+        y: readNumber(y ?? null, defaultCutout.y),
+        origin: origin === "corner" ? "corner" : defaultCutout.origin
+      };
+    });
+
+const formatCutouts = (cutouts: WallCutout[]) =>
+  cutouts
+    .map((cutout) =>
+      [
+        cutout.wall,
+        cutout.shape,
+        roundTo(cutout.width),
+        roundTo(cutout.height),
+        roundTo(cutout.x),
+        roundTo(cutout.y),
+        cutout.origin
+      ].join(",")
+    )
+    .join(";");
+
+const readSizingMode = (value: string | null): SizingMode =>
+  value === "outside" || value === "gridfinity" ? value : defaultParams.sizingMode;
+
+const readShape = (value: string | null): ShapeType =>
+  value === "cylinder" || value === "polygon" ? value : defaultParams.shape;
+
 export const roundTo = (value: number, digits = 3) => {
   const factor = Math.pow(10, digits);
   return Math.round(value * factor) / factor;
@@ -54,16 +356,99 @@ export const parseParams = (search: string): ShapeParams => {
   const thicknessMode = query.get("tmode");
 
   return {
-    shape: defaultParams.shape,
+    shape: readShape(query.get("shape")),
+    sizingMode: readSizingMode(query.get("size")),
+    gridUnitsX: readNumber(query.get("gx"), defaultParams.gridUnitsX),
+    gridUnitsY: readNumber(query.get("gy"), defaultParams.gridUnitsY),
+    gridUnitsZ: readNumber(query.get("gz"), defaultParams.gridUnitsZ),
+    gridMagnetHoles: readBoolean(query.get("gm"), defaultParams.gridMagnetHoles),
+    gridScrewHoles: readBoolean(query.get("gs"), defaultParams.gridScrewHoles),
     includeLid: readBoolean(query.get("lid"), defaultParams.includeLid),
+    lidStyle: readLidStyle(query.get("ls")),
+    lipDepth: readNumber(query.get("ld"), defaultParams.lipDepth),
+    lipThickness: readNumber(query.get("lt"), defaultParams.lipThickness),
+    slideGrooveProfile:
+      query.get("sgp") === "dovetail" ? "dovetail" : defaultParams.slideGrooveProfile,
+    slideGrooveDepth: readNumber(query.get("sgd"), defaultParams.slideGrooveDepth),
+    slideLidThickness: readNumber(query.get("slt"), defaultParams.slideLidThickness),
+    slideAxis: query.get("sax") === "depth" ? "depth" : defaultParams.slideAxis,
+    hingeSide: readHingeSide(query.get("hs")),
+    hingePin: query.get("hp") === "separate" ? "separate" : defaultParams.hingePin,
+    hingeLayout: query.get("hl") === "open" ? "open" : defaultParams.hingeLayout,
+    hingeKnuckles: readNumber(query.get("hk"), defaultParams.hingeKnuckles),
+    hingePinDiameter: readNumber(query.get("hpd"), defaultParams.hingePinDiameter),
+    hingeClearance: readNumber(query.get("hc"), defaultParams.hingeClearance),
+    snapDetents: readBoolean(query.get("sn"), defaultParams.snapDetents),
+    snapBumpsPerSide: readNumber(query.get("snb"), defaultParams.snapBumpsPerSide),
+    snapBumpHeight: readNumber(query.get("snh"), defaultParams.snapBumpHeight),
+    snapEngagement: readNumber(query.get("sne"), defaultParams.snapEngagement),
+    magnetPockets: readBoolean(query.get("mp"), defaultParams.magnetPockets),
+    magnetDiameter: readNumber(query.get("mpd"), defaultParams.magnetDiameter),
+    magnetDepth: readNumber(query.get("mph"), defaultParams.magnetDepth),
+    threadPitch: readNumber(query.get("tp"), defaultParams.threadPitch),
+    threadTurns: readNumber(query.get("tn"), defaultParams.threadTurns),
+    threadDepth: readNumber(query.get("td"), defaultParams.threadDepth),
+    threadClearance: readNumber(query.get("tc"), defaultParams.threadClearance),
+    dividerRows: readNumber(query.get("dr"), defaultParams.dividerRows),
+    dividerColumns: readNumber(query.get("dc"), defaultParams.dividerColumns),
+    dividerThickness: readNumber(query.get("dt"), defaultParams.dividerThickness),
+    dividerFullHeight: readBoolean(query.get("dfh"), defaultParams.dividerFullHeight),
+    dividerHeight: readNumber(query.get("dh"), defaultParams.dividerHeight),
+    dividerColumnWidths: query.get("dcw") ?? defaultParams.dividerColumnWidths,
     insideWidth: readNumber(query.get("w"), defaultParams.insideWidth),
     insideDepth: readNumber(query.get("d"), defaultParams.insideDepth),
     insideHeight: readNumber(query.get("h"), defaultParams.insideHeight),
+    insideDiameter: readNumber(query.get("dia"), defaultParams.insideDiameter),
+    polygonSides: readNumber(query.get("n"), defaultParams.polygonSides),
+    insideAcrossFlats: readNumber(query.get("af"), defaultParams.insideAcrossFlats),
+    outsideWidth: readNumber(query.get("ow"), defaultParams.outsideWidth),
+    outsideDepth: readNumber(query.get("od"), defaultParams.outsideDepth),
+    outsideHeight: readNumber(query.get("oh"), defaultParams.outsideHeight),
+    outsideDiameter: readNumber(query.get("odia"), defaultParams.outsideDiameter),
+    outsideAcrossFlats: readNumber(query.get("oaf"), defaultParams.outsideAcrossFlats),
+    outsideIncludesLid: readBoolean(query.get("oil"), defaultParams.outsideIncludesLid),
     includeInsideRadius: readBoolean(
       query.get("radius"),
       defaultParams.includeInsideRadius
     ),
     insideRadius: readNumber(query.get("r"), defaultParams.insideRadius),
+    bottomFillet: readNumber(query.get("fb"), defaultParams.bottomFillet),
+    rimFillet: readNumber(query.get("fr"), defaultParams.rimFillet),
+    lidFillet: readNumber(query.get("fl"), defaultParams.lidFillet),
+    bottomChamfer: readNumber(query.get("cb"), defaultParams.bottomChamfer),
+    lidLeadIn: readNumber(query.get("cli"), defaultParams.lidLeadIn),
+    labelText: query.get("lbt") ?? defaultParams.labelText,
+    labelSize: readNumber(query.get("lbs"), defaultParams.labelSize),
+    labelFace: readLabelFace(query.get("lbf")),
+    labelMode: query.get("lbm") === "deboss" ? "deboss" : defaultParams.labelMode,
+    labelDepth: readNumber(query.get("lbd"), defaultParams.labelDepth),
+    cutouts: readCutouts(query.get("cut")),
+    ventPattern: readVentPattern(query.get("vp")),
+    ventFace: readLabelFace(query.get("vf")),
+    ventPitch: readNumber(query.get("vpi"), defaultParams.ventPitch),
+    ventHoleSize: readNumber(query.get("vhs"), defaultParams.ventHoleSize),
+    ventMargin: readNumber(query.get("vm"), defaultParams.ventMargin),
+    ventBorder: readNumber(query.get("vb"), defaultParams.ventBorder),
+    stackable: readBoolean(query.get("st"), defaultParams.stackable),
+    stackStepHeight: readNumber(query.get("sth"), defaultParams.stackStepHeight),
+    stackClearance: readNumber(query.get("stc"), defaultParams.stackClearance),
+    standoffPattern: readStandoffPattern(query.get("so")),
+    standoffPitchX: readNumber(query.get("sox"), defaultParams.standoffPitchX),
+    standoffPitchY: readNumber(query.get("soy"), defaultParams.standoffPitchY),
+    standoffHoles: query.get("soh") ?? defaultParams.standoffHoles,
+    standoffDiameter: readNumber(query.get("sod"), defaultParams.standoffDiameter),
+    standoffHeight: readNumber(query.get("soz"), defaultParams.standoffHeight),
+    standoffScrewDiameter: readNumber(query.get("sos"), defaultParams.standoffScrewDiameter),
+    standoffInsert: readBoolean(query.get("soi"), defaultParams.standoffInsert),
+    standoffInsertDiameter: readNumber(query.get("soid"), defaultParams.standoffInsertDiameter),
+    standoffInsertDepth: readNumber(query.get("soie"), defaultParams.standoffInsertDepth),
+    keyholeFace: readKeyholeFace(query.get("kh")),
+    keyholeCount: readNumber(query.get("khn"), defaultParams.keyholeCount),
+    keyholeSpacing: readNumber(query.get("khs"), defaultParams.keyholeSpacing),
+    keyholeHeadDiameter: readNumber(query.get("khd"), defaultParams.keyholeHeadDiameter),
+    keyholeShankWidth: readNumber(query.get("khw"), defaultParams.keyholeShankWidth),
+    keyholeSlotLength: readNumber(query.get("khl"), defaultParams.keyholeSlotLength),
+    keyholeReinforcement: readNumber(query.get("khr"), defaultParams.keyholeReinforcement),
     thicknessMode:
       thicknessMode === "custom" ? "custom" : defaultParams.thicknessMode,
     thickness: readNumber(query.get("t"), defaultParams.thickness),
@@ -82,10 +467,120 @@ export const parseParams = (search: string): ShapeParams => {
 
 export const paramsToSearch = (params: ShapeParams) => {
   const query = new URLSearchParams();
-  query.delete("shape");
+  if (params.shape !== defaultParams.shape) {
+    query.set("shape", params.shape);
+  }
+  if (params.sizingMode !== defaultParams.sizingMode) {
+    query.set("size", params.sizingMode);
+  }
+  if (params.gridUnitsX !== defaultParams.gridUnitsX) {
+    query.set("gx", params.gridUnitsX.toString());
+  }
+  if (params.gridUnitsY !== defaultParams.gridUnitsY) {
+    query.set("gy", params.gridUnitsY.toString());
+  }
+  if (params.gridUnitsZ !== defaultParams.gridUnitsZ) {
+    query.set("gz", params.gridUnitsZ.toString());
+  }
+  if (params.gridMagnetHoles !== defaultParams.gridMagnetHoles) {
+    query.set("gm", params.gridMagnetHoles ? "1" : "0");
+  }
+  if (params.gridScrewHoles !== defaultParams.gridScrewHoles) {
+    query.set("gs", params.gridScrewHoles ? "1" : "0");
+  }
   if (params.includeLid !== defaultParams.includeLid) {
     query.set("lid", params.includeLid ? "1" : "0");
   }
+  if (params.lidStyle !== defaultParams.lidStyle) {
+    query.set("ls", params.lidStyle);
+  }
+  if (params.lipDepth !== defaultParams.lipDepth) {
+    query.set("ld", roundTo(params.lipDepth).toString());
+  }
+  if (params.lipThickness !== defaultParams.lipThickness) {
+    query.set("lt", roundTo(params.lipThickness).toString());
+  }
+  if (params.slideGrooveProfile !== defaultParams.slideGrooveProfile) {
+    query.set("sgp", params.slideGrooveProfile);
+  }
+  if (params.slideGrooveDepth !== defaultParams.slideGrooveDepth) {
+    query.set("sgd", roundTo(params.slideGrooveDepth).toString());
+  }
+  if (params.slideLidThickness !== defaultParams.slideLidThickness) {
+    query.set("slt", roundTo(params.slideLidThickness).toString());
+  }
+  if (params.slideAxis !== defaultParams.slideAxis) {
+    query.set("sax", params.slideAxis);
+  }
+  if (params.hingeSide !== defaultParams.hingeSide) {
+    query.set("hs", params.hingeSide);
+  }
+  if (params.hingePin !== defaultParams.hingePin) {
+    query.set("hp", params.hingePin);
+  }
+  if (params.hingeLayout !== defaultParams.hingeLayout) {
+    query.set("hl", params.hingeLayout);
+  }
+  if (params.hingeKnuckles !== defaultParams.hingeKnuckles) {
+    query.set("hk", params.hingeKnuckles.toString());
+  }
+  if (params.hingePinDiameter !== defaultParams.hingePinDiameter) {
+    query.set("hpd", roundTo(params.hingePinDiameter).toString());
+  }
+  if (params.hingeClearance !== defaultParams.hingeClearance) {
+    query.set("hc", roundTo(params.hingeClearance).toString());
+  }
+  if (params.snapDetents !== defaultParams.snapDetents) {
+    query.set("sn", params.snapDetents ? "1" : "0");
+  }
+  if (params.snapBumpsPerSide !== defaultParams.snapBumpsPerSide) {
+    query.set("snb", params.snapBumpsPerSide.toString());
+  }
+  if (params.snapBumpHeight !== defaultParams.snapBumpHeight) {
+    query.set("snh", roundTo(params.snapBumpHeight).toString());
+  }
+  if (params.snapEngagement !== defaultParams.snapEngagement) {
+    query.set("sne", roundTo(params.snapEngagement).toString());
+  }
+  if (params.magnetPockets !== defaultParams.magnetPockets) {
+    query.set("mp", params.magnetPockets ? "1" : "0");
+  }
+  if (params.magnetDiameter !== defaultParams.magnetDiameter) {
+    query.set("mpd", roundTo(params.magnetDiameter).toString());
+  }
+  if (params.magnetDepth !== defaultParams.magnetDepth) {
+    query.set("mph", roundTo(params.magnetDepth).toString());
+  }
+  if (params.threadPitch !== defaultParams.threadPitch) {
+    query.set("tp", roundTo(params.threadPitch).toString());
+  }
+  if (params.threadTurns !== defaultParams.threadTurns) {
+    query.set("tn", roundTo(params.threadTurns).toString());
+  }
+  if (params.threadDepth !== defaultParams.threadDepth) {
+    query.set("td", roundTo(params.threadDepth).toString());
+  }
+  if (params.threadClearance !== defaultParams.threadClearance) {
+    query.set("tc", roundTo(params.threadClearance).toString());
+  }
+  if (params.dividerRows !== defaultParams.dividerRows) {
+    query.set("dr", params.dividerRows.toString());
+  }
+  if (params.dividerColumns !== defaultParams.dividerColumns) {
+    query.set("dc", params.dividerColumns.toString());
+  }
+  if (params.dividerThickness !== defaultParams.dividerThickness) {
+    query.set("dt", roundTo(params.dividerThickness).toString());
+  }
+  if (params.dividerFullHeight !== defaultParams.dividerFullHeight) {
+    query.set("dfh", params.dividerFullHeight ? "1" : "0");
+  }
+  if (params.dividerHeight !== defaultParams.dividerHeight) {
+    query.set("dh", roundTo(params.dividerHeight).toString());
+  }
+  if (params.dividerColumnWidths !== defaultParams.dividerColumnWidths) {
+    query.set("dcw", params.dividerColumnWidths);
+  }
 
   if (params.insideWidth !== defaultParams.insideWidth) {
     query.set("w", roundTo(params.insideWidth).toString());
@@ -96,6 +591,33 @@ export const paramsToSearch = (params: ShapeParams) => {
   if (params.insideHeight !== defaultParams.insideHeight) {
     query.set("h", roundTo(params.insideHeight).toString());
   }
+  if (params.insideDiameter !== defaultParams.insideDiameter) {
+    query.set("dia", roundTo(params.insideDiameter).toString());
+  }
+  if (params.polygonSides !== defaultParams.polygonSides) {
+    query.set("n", params.polygonSides.toString());
+  }
+  if (params.insideAcrossFlats !== defaultParams.insideAcrossFlats) {
+    query.set("af", roundTo(params.insideAcrossFlats).toString());
+  }
+  if (params.outsideWidth !== defaultParams.outsideWidth) {
+    query.set("ow", roundTo(params.outsideWidth).toString());
+  }
+  if (params.outsideDepth !== defaultParams.outsideDepth) {
+    query.set("od", roundTo(params.outsideDepth).toString());
+  }
+  if (params.outsideHeight !== defaultParams.outsideHeight) {
+    query.set("oh", roundTo(params.outsideHeight).toString());
+  }
+  if (params.outsideDiameter !== defaultParams.outsideDiameter) {
+    query.set("odia", roundTo(params.outsideDiameter).toString());
+  }
+  if (params.outsideAcrossFlats !== defaultParams.outsideAcrossFlats) {
+    query.set("oaf", roundTo(params.outsideAcrossFlats).toString());
+  }
+  if (params.outsideIncludesLid !== defaultParams.outsideIncludesLid) {
+    query.set("oil", params.outsideIncludesLid ? "1" : "0");
+  }
 
   if (params.includeInsideRadius !== defaultParams.includeInsideRadius) {
     query.set("radius", params.includeInsideRadius ? "1" : "0");
@@ -103,6 +625,117 @@ export const paramsToSearch = (params: ShapeParams) => {
   if (params.insideRadius !== defaultParams.insideRadius) {
     query.set("r", roundTo(params.insideRadius).toString());
   }
+  if (params.bottomFillet !== defaultParams.bottomFillet) {
+    query.set("fb", roundTo(params.bottomFillet).toString());
+  }
+  if (params.rimFillet !== defaultParams.rimFillet) {
+    query.set("fr", roundTo(params.rimFillet).toString());
+  }
+  if (params.lidFillet !== defaultParams.lidFillet) {
+    query.set("fl", roundTo(params.lidFillet).toString());
+  }
+  if (params.bottomChamfer !== defaultParams.bottomChamfer) {
+    query.set("cb", roundTo(params.bottomChamfer).toString());
+  }
+  if (params.lidLeadIn !== defaultParams.lidLeadIn) {
+    query.set("cli", roundTo(params.lidLeadIn).toString());
+  }
+  if (params.labelText !== defaultParams.labelText) {
+    query.set("lbt", params.labelText);
+  }
+  if (params.labelSize !== defaultParams.labelSize) {
+    query.set("lbs", roundTo(params.labelSize).toString());
+  }
+  if (params.labelFace !== defaultParams.labelFace) {
+    query.set("lbf", params.labelFace);
+  }
+  if (params.labelMode !== defaultParams.labelMode) {
+    query.set("lbm", params.labelMode);
+  }
+  if (params.labelDepth !== defaultParams.labelDepth) {
+    query.set("lbd", roundTo(params.labelDepth).toString());
+  }
+  if (params.cutouts.length) {
+    query.set("cut", formatCutouts(params.cutouts));
+  }
+  if (params.ventPattern !== defaultParams.ventPattern) {
+    query.set("vp", params.ventPattern);
+  }
+  if (params.ventFace !== defaultParams.ventFace) {
+    query.set("vf", params.ventFace);
+  }
+  if (params.ventPitch !== defaultParams.ventPitch) {
+    query.set("vpi", roundTo(params.ventPitch).toString());
+  }
+  if (params.ventHoleSize !== defaultParams.ventHoleSize) {
+    query.set("vhs", roundTo(params.ventHoleSize).toString());
+  }
+  if (params.ventMargin !== defaultParams.ventMargin) {
+    query.set("vm", roundTo(params.ventMargin).toString());
+  }
+  if (params.ventBorder !== defaultParams.ventBorder) {
+    query.set("vb", roundTo(params.ventBorder).toString());
+  }
+  if (params.stackable !== defaultParams.stackable) {
+    query.set("st", params.stackable ? "1" : "0");
+  }
+  if (params.stackStepHeight !== defaultParams.stackStepHeight) {
+    query.set("sth", roundTo(params.stackStepHeight).toString());
+  }
+  if (params.stackClearance !== defaultParams.stackClearance) {
+    query.set("stc", roundTo(params.stackClearance).toString());
+  }
+  if (params.standoffPattern !== defaultParams.standoffPattern) {
+    query.set("so", params.standoffPattern);
+  }
+  if (params.standoffPitchX !== defaultParams.standoffPitchX) {
+    query.set("sox", roundTo(params.standoffPitchX).toString());
+  }
+  if (params.standoffPitchY !== defaultParams.standoffPitchY) {
+    query.set("soy", roundTo(params.standoffPitchY).toString());
+  }
+  if (params.standoffHoles !== defaultParams.standoffHoles) {
+    query.set("soh", params.standoffHoles);
+  }
+  if (params.standoffDiameter !== defaultParams.standoffDiameter) {
+    query.set("sod", roundTo(params.standoffDiameter).toString());
+  }
+  if (params.standoffHeight !== defaultParams.standoffHeight) {
+    query.set("soz", roundTo(params.standoffHeight).toString());
+  }
+  if (params.standoffScrewDiameter !== defaultParams.standoffScrewDiameter) {
+    query.set("sos", roundTo(params.standoffScrewDiameter).toString());
+  }
+  if (params.standoffInsert !== defaultParams.standoffInsert) {
+    query.set("soi", params.standoffInsert ? "1" : "0");
+  }
+  if (params.standoffInsertDiameter !== defaultParams.standoffInsertDiameter) {
+    query.set("soid", roundTo(params.standoffInsertDiameter).toString());
+  }
+  if (params.standoffInsertDepth !== defaultParams.standoffInsertDepth) {
+    query.set("soie", roundTo(params.standoffInsertDepth).toString());
+  }
+  if (params.keyholeFace !== defaultParams.keyholeFace) {
+    query.set("kh", params.keyholeFace);
+  }
+  if (params.keyholeCount !== defaultParams.keyholeCount) {
+    query.set("khn", params.keyholeCount.toString());
+  }
+  if (params.keyholeSpacing !== defaultParams.keyholeSpacing) {
+    query.set("khs", roundTo(params.keyholeSpacing).toString());
+  }
+  if (params.keyholeHeadDiameter !== defaultParams.keyholeHeadDiameter) {
+    query.set("khd", roundTo(params.keyholeHeadDiameter).toString());
+  }
+  if (params.keyholeShankWidth !== defaultParams.keyholeShankWidth) {
+    query.set("khw", roundTo(params.keyholeShankWidth).toString());
+  }
+  if (params.keyholeSlotLength !== defaultParams.keyholeSlotLength) {
+    query.set("khl", roundTo(params.keyholeSlotLength).toString());
+  }
+  if (params.keyholeReinforcement !== defaultParams.keyholeReinforcement) {
+    query.set("khr", roundTo(params.keyholeReinforcement).toString());
+  }
 
   if (params.thicknessMode !== defaultParams.thicknessMode) {
     query.set("tmode", params.thicknessMode);
@@ -126,4 +759,1532 @@ export const paramsToSearch = (params: ShapeParams) => {
   return query.toString();
 };
 
-export const normalizeParamsForCad = (params: ShapeParams): ShapeParams => params;
+export type ParamIssueSeverity = "error" | "warning";
+
+export type ParamIssue = {
+  field: keyof ShapeParams;
+  severity: ParamIssueSeverity;
+  message: string;
+};
+
+export type ParamValidation = {
+  params: ShapeParams;
+  issues: ParamIssue[];
+  hasErrors: boolean;
+};
+
+// Thinnest wall a 0.4 mm nozzle can reliably lay down in one pass.
+export const minPrintableThickness = 0.4;
+// Matches the margin clampRadius keeps so rounded corners never degenerate.
+const radiusMargin = 0.01;
+
+// Height a sliding lid adds above the cavity: the groove (lid thickness plus
+// clearance) and a ledge of the same thickness above it, so the lid finishes
+// flush with the top of the walls.
+export const slideLidHeadroom = (params: ShapeParams) =>
+  params.slideLidThickness * 2 + params.clearance;
+
+// Gridfinity bins sit on a 42 mm grid, are 0.5 mm smaller than the grid
+// overall and grow in 7 mm height units, measured from the bottom of the
+// base feet without a stacking lip.
+export const gridfinity = {
+  pitch: 42,
+  heightUnit: 7,
+  gap: 0.5,
+  outerRadius: 3.75,
+  baseHeight: 4.75,
+  holeOffset: 13,
+  magnetDiameter: 6.5,
+  magnetDepth: 2.4,
+  screwDiameter: 3,
+  screwDepth: 6
+};
+
+export const isGridfinity = (params: ShapeParams) =>
+  params.sizingMode === "gridfinity" && params.shape === "box";
+
+// Gridfinity bins stack on the grid, so only other boxes get a stacking foot.
+export const isStackable = (params: ShapeParams) => params.stackable && !isGridfinity(params);
+
+// Stacking boxes carry a rim on the lid for the foot of the box above.
+export const hasStackingRim = (params: ShapeParams) =>
+  isStackable(params) && params.includeLid;
+
+// Wall, lid top and floor thickness. In Gridfinity mode the floor also
+// carries the stepped base, and on a stacking box the foot, both shaped out
+// of its lower part.
+export const resolveThickness = (params: ShapeParams) => {
+  const base =
+    (isGridfinity(params) ? gridfinity.baseHeight : 0) +
+    (isStackable(params) ? params.stackStepHeight : 0);
+  return params.thicknessMode === "uniform"
+    ? { wall: params.thickness, top: params.thickness, bottom: params.thickness + base }
+    : {
+        wall: params.wallThickness,
+        top: params.topThickness,
+        bottom: params.bottomThickness + base
+      };
+};
+
+// Hinge layout for a closed box with the hinge along the back (+Y) wall; other
+// sides are the same geometry turned about Z. The pin axis runs outside the
+// wall, halfway between the bed and the top of the closed lid, so swinging
+// the lid through 180 degrees lays it flat on the bed beside the box.
+export const hingeGeometry = (params: ShapeParams) => {
+  const { wall, top, bottom } = resolveThickness(params);
+  const alongWidth = params.hingeSide === "back" || params.hingeSide === "front";
+  const clearance = params.hingeClearance;
+  const pinRadius = params.hingePinDiameter / 2;
+  const knuckleRadius = pinRadius + clearance + wall;
+  const length = (alongWidth ? params.insideWidth : params.insideDepth) + wall * 2;
+  const knuckles = Math.round(params.hingeKnuckles);
+  const rimZ = params.insideHeight + bottom;
+  return {
+    alongWidth,
+    pinRadius,
+    knuckleRadius,
+    length,
+    knuckles,
+    segment: (length - (knuckles - 1) * clearance) / knuckles,
+    rimZ,
+    // Distance from the outer face of the hinge wall to the pin axis.
+    axisOffset: clearance + knuckleRadius,
+    axisZ: (rimZ + top) / 2,
+    protrusion: clearance + knuckleRadius * 2
+  };
+};
+
+// Snap detents are only built for sleeve lids on the rectangular box, where
+// the lid wall runs parallel to flat box walls.
+export const hasSnapDetents = (params: ShapeParams) =>
+  params.snapDetents &&
+  params.includeLid &&
+  params.lidStyle === "sleeve" &&
+  params.shape === "box";
+
+// Bumps sit on the straight part of each outer wall, one per equal segment,
+// each half as long as its segment and never longer than 10 mm.
+export const snapLayout = (params: ShapeParams, sideLength: number) => {
+  const { wall } = resolveThickness(params);
+  const corner = params.includeInsideRadius ? params.insideRadius + wall : 0;
+  const count = Math.round(params.snapBumpsPerSide);
+  const segment = (sideLength - corner * 2) / count;
+  return {
+    length: Math.min(segment / 2, 10),
+    centers: Array.from({ length: count }, (_, index) => corner + segment * (index + 0.5))
+  };
+};
+
+// Magnets go in the corners of the rectangular box, under lids whose top
+// rests on the rim.
+export const hasMagnetPockets = (params: ShapeParams) =>
+  params.magnetPockets &&
+  params.includeLid &&
+  params.shape === "box" &&
+  (params.lidStyle === "sleeve" || params.lidStyle === "plug" || params.lidStyle === "hinge");
+
+// Pocket centres about the middle of the box footprint, each on the diagonal
+// of its corner where it leaves the most wall around it. With rounded
+// corners that is halfway through the wall; square corners have a little
+// more room towards the outer corner. `skin` is the wall left either side.
+export const magnetLayout = (params: ShapeParams) => {
+  const { wall } = resolveThickness(params);
+  const radius = params.magnetDiameter / 2;
+  let inset: number;
+  let skin: number;
+  if (params.includeInsideRadius) {
+    const corner = params.insideRadius + wall;
+    inset = corner - (params.insideRadius + wall / 2) / Math.SQRT2;
+    skin = wall / 2 - radius;
+  } else {
+    inset = (2 - Math.SQRT2) * wall;
+    skin = inset - radius;
+  }
+  const x = (params.insideWidth + wall * 2) / 2 - inset;
+  const y = (params.insideDepth + wall * 2) / 2 - inset;
+  const centers: [number, number][] = [
+    [-x, -y],
+    [x, -y],
+    [-x, y],
+    [x, y]
+  ];
+  return { centers, skin };
+};
+
+// Screw-top thread layout. Both threads have 45 degree flanks; the crest
+// width is chosen so the flanks of the box and lid threads stay
+// `threadClearance` apart, measured square to the flank.
+export const threadGeometry = (params: ShapeParams) => {
+  const { wall, bottom } = resolveThickness(params);
+  const pitch = params.threadPitch;
+  const depth = params.threadDepth;
+  const clearance = params.threadClearance;
+  const crest = pitch / 2 - depth + clearance - clearance * Math.SQRT2;
+  const rimZ = params.insideHeight + bottom;
+  // The lid skirt covers every turn plus one pitch of lead-in.
+  const skirt = (params.threadTurns + 1) * pitch;
+  const neckRadius = params.insideDiameter / 2 + wall;
+  const root = crest + depth * 2;
+  return {
+    crest,
+    root,
+    // How far each ridge reaches into its wall, kept well clear of the
+    // neighbouring turn.
+    embed: Math.min(wall / 2, (pitch - root) / 4),
+    neckRadius,
+    lidInnerRadius: neckRadius + depth + clearance,
+    rimZ,
+    skirt,
+    // Height at which the box thread starts; the lid thread starts half a
+    // pitch higher so its crests sit between the box crests.
+    startZ: rimZ - (params.threadTurns + 0.5) * pitch
+  };
+};
+
+// How far the outside of the part exceeds the cavity along each axis: the
+// walls and floor, the thread or hinge knuckles standing proud of the walls,
+// and, when the outside size includes the lid, the lid around and above the
+// box. The sliding lid sits inside the walls, so it only adds its headroom.
+export const outsideAllowance = (params: ShapeParams) => {
+  const { wall, top, bottom } = resolveThickness(params);
+  const lid = params.includeLid ? params.lidStyle : null;
+  const withLid = lid !== null && params.outsideIncludesLid;
+  let width = wall * 2;
+  let depth = wall * 2;
+  let height = bottom;
+  if (lid === "slide") {
+    height += slideLidHeadroom(params);
+  } else if (withLid) {
+    height += top;
+  }
+  if (lid === "screw") {
+    const thread = params.threadDepth * 2 + (withLid ? (params.threadClearance + wall) * 2 : 0);
+    width += thread;
+    depth += thread;
+  }
+  if (lid === "hinge") {
+    const hinge = hingeGeometry(params);
+    if (hinge.alongWidth) {
+      depth += hinge.protrusion;
+    } else {
+      width += hinge.protrusion;
+    }
+  }
+  if (withLid && lid === "sleeve") {
+    width += (params.clearance + wall) * 2;
+    depth += (params.clearance + wall) * 2;
+  }
+  if (withLid && hasStackingRim(params)) {
+    height += params.stackStepHeight;
+  }
+  return { width, depth, height };
+};
+
+// Lead-in chamfers go on lids whose open end slides over the box or its
+// thread.
+export const hasLidLeadIn = (params: ShapeParams) =>
+  params.includeLid && (params.lidStyle === "sleeve" || params.lidStyle === "screw");
+
+export const hasDividers = (params: ShapeParams) =>
+  params.shape === "box" && (params.dividerRows > 1 || params.dividerColumns > 1);
+
+// Relative column widths from the comma-separated list. Entries that are not
+// numbers come back as NaN so validation can point at them.
+export const parseColumnWidths = (text: string) =>
+  text
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map(Number);
+
+// Splits `span` into `count` cells separated by `thickness`, sized in
+// proportion to `weights` when they are given.
+const splitSpan = (span: number, count: number, thickness: number, weights: number[]) => {
+  const shares = weights.length === count ? weights : Array(count).fill(1);
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  const free = span - thickness * (count - 1);
+  let cursor = 0;
+  return shares.map((share) => {
+    const size = (free * share) / total;
+    const cell = { offset: cursor, size };
+    cursor += size + thickness;
+    return cell;
+  });
+};
+
+// Compartments of the divider grid, with offsets measured from the inside
+// corner of the cavity. Columns run along the width and rows along the depth.
+export const dividerLayout = (params: ShapeParams) => ({
+  columns: splitSpan(
+    params.insideWidth,
+    Math.round(params.dividerColumns),
+    params.dividerThickness,
+    parseColumnWidths(params.dividerColumnWidths)
+  ),
+  rows: splitSpan(params.insideDepth, Math.round(params.dividerRows), params.dividerThickness, []),
+  height: params.dividerFullHeight ? params.insideHeight : params.dividerHeight
+});
+
+// Mounting hole patterns of common boards, measured from the lower left
+// corner of the board.
+export const standoffPresets = [
+  {
+    id: "rpi",
+    label: "Raspberry Pi 4 / 5 (M2.5)",
+    holes: "3.5,3.5; 61.5,3.5; 3.5,52.5; 61.5,52.5"
+  },
+  {
+    id: "rpi-zero",
+    label: "Raspberry Pi Zero (M2.5)",
+    holes: "3.5,3.5; 61.5,3.5; 3.5,26.5; 61.5,26.5"
+  },
+  {
+    id: "uno",
+    label: "Arduino Uno (M3)",
+    holes: "13.97,2.54; 15.24,50.8; 66.04,7.62; 66.04,35.56"
+  }
+];
+
+export const hasStandoffs = (params: ShapeParams) =>
+  params.shape === "box" && params.standoffPattern !== "none";
+
+// Hole positions from the semicolon-separated "x,y" list. Entries that are
+// not a pair of numbers come back as NaN so validation can point at them.
+export const parseStandoffHoles = (text: string): [number, number][] =>
+  text
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const parts = entry.split(",").map((part) => part.trim());
+      if (parts.length !== 2 || parts.some((part) => part === "")) {
+        return [NaN, NaN];
+      }
+      return [Number(parts[0]), Number(parts[1])];
+    });
+
+// Standoff centres in box coordinates, with the pattern centred on the floor.
+export const standoffCenters = (params: ShapeParams): [number, number][] => {
+  const { wall } = resolveThickness(params);
+  const holes: [number, number][] =
+    params.standoffPattern === "pitch"
+      ? [
+          [0, 0],
+          [params.standoffPitchX, 0],
+          [0, params.standoffPitchY],
+          [params.standoffPitchX, params.standoffPitchY]
+        ]
+      : parseStandoffHoles(params.standoffHoles);
+  if (!holes.length) return [];
+  const xs = holes.map(([x]) => x);
+  const ys = holes.map(([, y]) => y);
+  const midX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const midY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  return holes.map(([x, y]) => [
+    wall + params.insideWidth / 2 + x - midX,
+    wall + params.insideDepth / 2 + y - midY
+  ]);
+};
+
+// Solid border the keyhole reinforcement pad keeps around the head channel.
+export const keyholeBorder = 2;
+
+export const hasKeyholes = (params: ShapeParams) =>
+  params.shape === "box" && params.keyholeFace !== "none";
+
+// Keyhole row on its face. `positions` run along the face, as seen from
+// outside for the back wall and along X for the floor; `head` is the centre
+// of the head hole across the face, measured up the wall from the bed or
+// along Y on the floor, with the slot running up or towards the back. The
+// row and each pad are centred on the face, below a plug lid's lip.
+export const keyholeLayout = (params: ShapeParams) => {
+  const { wall, bottom } = resolveThickness(params);
+  const onFloor = params.keyholeFace === "floor";
+  const head = params.keyholeHeadDiameter;
+  const padWidth = head + keyholeBorder * 2;
+  const padLength = params.keyholeSlotLength + head + keyholeBorder * 2;
+  const lip = params.includeLid && params.lidStyle === "plug" ? params.lipDepth : 0;
+  const [start, span] = onFloor
+    ? [wall, params.insideDepth]
+    : [bottom, params.insideHeight - lip];
+  const length = params.insideWidth + wall * 2;
+  const count = Math.round(params.keyholeCount);
+  return {
+    positions: Array.from(
+      { length: count },
+      (_, index) => length / 2 + params.keyholeSpacing * (index - (count - 1) / 2)
+    ),
+    head: start + span / 2 - params.keyholeSlotLength / 2,
+    padWidth,
+    padLength,
+    // Straight stretch of the face between the rounded corners and room
+    // across it, for fitting the pads.
+    corner: params.includeInsideRadius ? params.insideRadius + wall : wall,
+    length,
+    span
+  };
+};
+
+// Smallest inside dimension across the footprint, used to check that inward
+// features such as plug lips still leave an opening.
+const insideSpan = (params: ShapeParams) => {
+  if (params.shape === "cylinder") return params.insideDiameter;
+  if (params.shape === "polygon") return params.insideAcrossFlats;
+  return Math.min(params.insideWidth, params.insideDepth);
+};
+
+export const cutoutHeight = (cutout: WallCutout) =>
+  cutout.shape === "circle" ? cutout.width : cutout.height;
+
+// Centre of a cutout on its wall: `u` along the outside of the wall from its
+// left end and `z` up from the bed. The rim is the top of the cavity.
+export const cutoutCenter = (params: ShapeParams, cutout: WallCutout) => {
+  const { wall, bottom } = resolveThickness(params);
+  const across = cutout.wall === "front" || cutout.wall === "back";
+  const length = (across ? params.insideWidth : params.insideDepth) + wall * 2;
+  const rim = params.insideHeight + bottom;
+  return cutout.origin === "center"
+    ? { u: length / 2 + cutout.x, z: rim / 2 + cutout.y, length, rim }
+    : { u: cutout.x, z: cutout.y, length, rim };
+};
+
+// Height above the bed from which the closed lid covers the walls, or null
+// when it leaves them open. A sleeve runs down the outside to the bed, or to
+// the foot step of a stacking box; a screw-top skirt covers the thread; a
+// plug lid lip lines the inside below the rim; a sliding lid runs in grooves
+// above it.
+const lidCoverStart = (params: ShapeParams) => {
+  if (!params.includeLid) return null;
+  const rim = params.insideHeight + resolveThickness(params).bottom;
+  switch (params.lidStyle) {
+    case "sleeve":
+      return isStackable(params) ? params.stackStepHeight : 0;
+    case "screw": {
+      const thread = threadGeometry(params);
+      return thread.rimZ - thread.skirt;
+    }
+    case "plug":
+      return rim - params.lipDepth;
+    case "slide":
+      return rim;
+    case "hinge":
+      return null;
+  }
+};
+
+export const hasVents = (params: ShapeParams) =>
+  params.ventPattern !== "none" && (params.ventFace !== "lid" || params.includeLid);
+
+export type VentHole = {
+  x: number;
+  y: number;
+  // Overall slot length; circles and hexagons use the hole size.
+  length: number;
+};
+
+// Open area the vents are spread over: the cavity under the lid, or the
+// inside of a wall between the floor, the rounded corners and the rim or
+// wherever the closed lid starts to cover the wall. Round and polygonal lids
+// use their inscribed circle. `shift` is how far the middle of the area sits
+// above the middle of the face; it is only non-zero on a wall the lid covers
+// part of.
+const ventArea = (params: ShapeParams) => {
+  const corner = params.includeInsideRadius ? params.insideRadius : 0;
+  if (params.ventFace !== "lid") {
+    const across = params.ventFace === "front" || params.ventFace === "back";
+    const length = across ? params.insideWidth : params.insideDepth;
+    const { bottom } = resolveThickness(params);
+    const rim = params.insideHeight + bottom;
+    const top = Math.min(rim, lidCoverStart(params) ?? rim);
+    return {
+      round: false,
+      width: length - corner * 2,
+      height: Math.max(0, top - bottom),
+      radius: 0,
+      shift: (top - rim) / 2
+    };
+  }
+  if (params.shape === "cylinder") {
+    const diameter = params.insideDiameter;
+    return { round: true, width: diameter, height: diameter, radius: 0, shift: 0 };
+  }
+  if (params.shape === "polygon") {
+    const flats = params.insideAcrossFlats;
+    return { round: true, width: flats, height: flats, radius: 0, shift: 0 };
+  }
+  // A plug lid is only open inside its lip.
+  const lip = params.lidStyle === "plug" ? (params.clearance + params.lipThickness) * 2 : 0;
+  return {
+    round: false,
+    width: params.insideWidth - lip,
+    height: params.insideDepth - lip,
+    radius: Math.max(0, corner - lip / 2),
+    shift: 0
+  };
+};
+
+// Hole centres for the vent pattern, measured from the middle of the face and
+// centred on the vent area with every hole kept `ventMargin` inside it. Slots
+// run along the longer side of the area; hexagons stand point up in rows
+// offset by half a pitch.
+export const ventLayout = (params: ShapeParams) => {
+  const area = ventArea(params);
+  const margin = params.ventMargin;
+  const halfWidth = area.width / 2 - margin;
+  const halfHeight = area.height / 2 - margin;
+  const cornerRadius = Math.max(0, area.radius - margin);
+  const size = params.ventHoleSize;
+  const pitch = params.ventPitch;
+  const alongX = area.width >= area.height;
+  const fits = (x: number, y: number, hw: number, hh: number) => {
+    const ax = Math.abs(x) + hw;
+    const ay = Math.abs(y) + hh;
+    if (area.round) {
+      return Math.hypot(ax, ay) <= halfWidth + 1e-9;
+    }
+    if (ax > halfWidth + 1e-9 || ay > halfHeight + 1e-9) return false;
+    const cx = halfWidth - cornerRadius;
+    const cy = halfHeight - cornerRadius;
+    return ax <= cx || ay <= cy || Math.hypot(ax - cx, ay - cy) <= cornerRadius + 1e-9;
+  };
+  const holes: VentHole[] = [];
+  if (halfWidth <= 0 || halfHeight <= 0 || !(size > 0) || !(pitch > 0)) {
+    return { holes, alongX };
+  }
+  // Symmetric offsets of `spacing` reaching out to `reach`, optionally
+  // shifted by half a step.
+  const steps = (reach: number, spacing: number, shifted = false) => {
+    const count = Math.floor(reach / spacing + (shifted ? 0.5 : 0));
+    const values: number[] = [];
+    for (let k = -count; k <= count; k += 1) {
+      const value = (k + (shifted ? 0.5 : 0)) * spacing;
+      if (Math.abs(value) <= reach + 1e-9) values.push(value);
+    }
+    return values;
+  };
+  if (params.ventPattern === "slots") {
+    const halfLong = alongX ? halfWidth : halfHeight;
+    const halfShort = alongX ? halfHeight : halfWidth;
+    const count = Math.floor((halfShort * 2 - size) / pitch) + 1;
+    for (let k = 0; k < count; k += 1) {
+      const offset = (k - (count - 1) / 2) * pitch;
+      const edge = Math.abs(offset) + size / 2;
+      // Shorten slots that reach into round or rounded corners.
+      let half = halfLong;
+      if (area.round) {
+        half = Math.sqrt(Math.max(0, halfWidth * halfWidth - edge * edge));
+      } else if (edge > halfShort - cornerRadius) {
+        half = halfLong - cornerRadius;
+      }
+      if (half * 2 >= size * 2) {
+        holes.push(
+          alongX
+            ? { x: 0, y: offset, length: half * 2 }
+            : { x: offset, y: 0, length: half * 2 }
+        );
+      }
+    }
+  } else if (params.ventPattern === "hex") {
+    const rise = (pitch * Math.sqrt(3)) / 2;
+    const halfTall = size / Math.sqrt(3);
+    steps(halfHeight, rise).forEach((y) => {
+      const shifted = Math.round(y / rise) % 2 !== 0;
+      steps(halfWidth, pitch, shifted).forEach((x) => {
+        if (fits(x, y, size / 2, halfTall)) holes.push({ x, y, length: size });
+      });
+    });
+  } else if (params.ventPattern === "circles") {
+    steps(halfHeight, pitch).forEach((y) => {
+      steps(halfWidth, pitch).forEach((x) => {
+        if (fits(x, y, size / 2, size / 2)) holes.push({ x, y, length: size });
+      });
+    });
+  }
+  return { holes: holes.map((hole) => ({ ...hole, y: hole.y + area.shift })), alongX };
+};
+
+export const hasLabel = (params: ShapeParams) =>
+  params.labelText.trim() !== "" && (params.labelFace !== "lid" || params.includeLid);
+
+// Flat area the label is laid out on. Round and polygonal lids report the
+// diameter of the circle that fits inside them.
+const labelFaceSpan = (params: ShapeParams) => {
+  const { wall, bottom } = resolveThickness(params);
+  if (params.labelFace !== "lid") {
+    const across = params.labelFace === "front" || params.labelFace === "back";
+    return {
+      round: false,
+      width: (across ? params.insideWidth : params.insideDepth) + wall * 2,
+      height: params.insideHeight + bottom
+    };
+  }
+  if (params.shape === "cylinder") {
+    return { round: true, width: params.insideDiameter + wall * 2, height: 0 };
+  }
+  if (params.shape === "polygon") {
+    return { round: true, width: params.insideAcrossFlats + wall * 2, height: 0 };
+  }
+  // The sliding panel only spans the cavity between the grooves.
+  const rim = params.lidStyle === "slide" ? 0 : wall * 2;
+  return {
+    round: false,
+    width: params.insideWidth + rim,
+    height: params.insideDepth + rim
+  };
+};
+
+// Issues found so far and the corrected copy of the params. Helpers read
+// `next`, so sizes derived from grid units or outside sizes are checked as
+// they will be built.
+const paramChecks = (params: ShapeParams) => {
+  const issues: ParamIssue[] = [];
+  const next: ShapeParams = { ...params };
+
+  const error = (field: keyof ShapeParams, message: string) =>
+    issues.push({ field, severity: "error", message });
+  const warning = (field: keyof ShapeParams, message: string) =>
+    issues.push({ field, severity: "warning", message });
+
+  const requirePositive = (field: keyof ShapeParams, label: string) => {
+    const value = next[field] as number;
+    if (!Number.isFinite(value)) {
+      error(field, `${label} must be a number.`);
+      return false;
+    }
+    if (value <= 0) {
+      error(field, `${label} must be greater than 0 mm.`);
+      return false;
+    }
+    return true;
+  };
+
+  const checkThickness = (
+    field: keyof ShapeParams,
+    label: string,
+    allowZero = false
+  ) => {
+    const value = next[field] as number;
+    if (allowZero && value === 0) {
+      return;
+    }
+    if (!requirePositive(field, label)) {
+      return;
+    }
+    if (value < minPrintableThickness) {
+      warning(
+        field,
+        `${label} below ${minPrintableThickness} mm may not print reliably.`
+      );
+    }
+  };
+
+  return { issues, next, error, warning, requirePositive, checkThickness };
+};
+
+type ParamChecks = ReturnType<typeof paramChecks>;
+
+// Feature validators read `sized`: the params with the inside dimensions the
+// part is built at. `boxSizeOk` says whether the box footprint can be used
+// for layout checks.
+type FeatureChecks = ParamChecks & {
+  sized: ShapeParams;
+  boxSizeOk: boolean;
+};
+
+const isPositive = (value: number) => Number.isFinite(value) && value > 0;
+
+// Gridfinity bins derive the inside size from grid units, so check the
+// units and fill in the inside dimensions before anything else reads them.
+const validateGridfinitySize = (
+  params: ShapeParams,
+  { next, error, warning }: ParamChecks
+) => {
+  if (params.sizingMode === "gridfinity" && params.shape !== "box") {
+    error("sizingMode", "Gridfinity sizing is only available for the box shape.");
+  }
+  if (isGridfinity(params)) {
+    const checkUnits = (field: "gridUnitsX" | "gridUnitsY" | "gridUnitsZ", label: string) => {
+      const value = params[field];
+      if (!Number.isFinite(value) || value < 1) {
+        error(field, `${label} must be at least 1 unit.`);
+      } else if (!Number.isInteger(value)) {
+        next[field] = Math.round(value);
+        warning(field, `${label} is rounded to ${next[field]} units.`);
+      }
+    };
+    checkUnits("gridUnitsX", "Width");
+    checkUnits("gridUnitsY", "Depth");
+    checkUnits("gridUnitsZ", "Height");
+    const { wall, bottom } = resolveThickness(params);
+    const outer = (units: number) => units * gridfinity.pitch - gridfinity.gap;
+    next.insideWidth = roundTo(outer(next.gridUnitsX) - wall * 2);
+    next.insideDepth = roundTo(outer(next.gridUnitsY) - wall * 2);
+    next.insideHeight = roundTo(next.gridUnitsZ * gridfinity.heightUnit - bottom);
+    next.includeInsideRadius = true;
+    next.insideRadius = roundTo(Math.max(0, gridfinity.outerRadius - wall));
+    if (next.insideHeight <= 0) {
+      error("gridUnitsZ", "Too few height units to clear the base and the floor.");
+    }
+    if (params.gridScrewHoles && bottom <= gridfinity.screwDepth) {
+      warning("gridScrewHoles", "Screw holes break through a floor this thin.");
+    }
+  }
+};
+
+// Outside sizing works back from the outer size to the cavity the rest of
+// the checks and the CAD code expect.
+const validateOutsideSize = (
+  params: ShapeParams,
+  { next, error, requirePositive }: ParamChecks
+) => {
+  const isBox = params.shape === "box";
+  const isPolygon = params.shape === "polygon";
+
+  if (params.sizingMode === "outside") {
+    const allowance = outsideAllowance(params);
+    type OutsideField =
+      | "outsideWidth"
+      | "outsideDepth"
+      | "outsideHeight"
+      | "outsideDiameter"
+      | "outsideAcrossFlats";
+    type InsideField =
+      | "insideWidth"
+      | "insideDepth"
+      | "insideHeight"
+      | "insideDiameter"
+      | "insideAcrossFlats";
+    const derive = (
+      source: OutsideField,
+      target: InsideField,
+      extra: number,
+      label: string
+    ) => {
+      if (!requirePositive(source, label)) return;
+      next[target] = roundTo(params[source] - extra);
+      if (next[target] <= 0) {
+        error(source, `${label} leaves no room inside once walls and lid are taken off.`);
+      }
+    };
+    if (isBox) {
+      derive("outsideWidth", "insideWidth", allowance.width, "Outside width");
+      derive("outsideDepth", "insideDepth", allowance.depth, "Outside depth");
+    } else if (isPolygon) {
+      derive("outsideAcrossFlats", "insideAcrossFlats", allowance.width, "Outside across flats");
+    } else {
+      derive("outsideDiameter", "insideDiameter", allowance.width, "Outside diameter");
+    }
+    derive("outsideHeight", "insideHeight", allowance.height, "Outside height");
+  }
+};
+
+// The cavity, the walls and the corner radius.
+const validateBody = ({
+  sized,
+  next,
+  error,
+  warning,
+  requirePositive,
+  checkThickness
+}: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+  const isPolygon = sized.shape === "polygon";
+
+  const widthOk = isBox && requirePositive("insideWidth", "Inside width");
+  const depthOk = isBox && requirePositive("insideDepth", "Inside depth");
+  const flatsOk =
+    isPolygon && requirePositive("insideAcrossFlats", "Inside across flats");
+  if (sized.shape === "cylinder") {
+    requirePositive("insideDiameter", "Inside diameter");
+  }
+  requirePositive("insideHeight", "Inside height");
+
+  if (isPolygon) {
+    const sides = sized.polygonSides;
+    if (!Number.isFinite(sides)) {
+      error("polygonSides", "Sides must be a number.");
+    } else if (sides < minPolygonSides || sides > maxPolygonSides) {
+      error(
+        "polygonSides",
+        `Sides must be between ${minPolygonSides} and ${maxPolygonSides}.`
+      );
+    } else if (!Number.isInteger(sides)) {
+      next.polygonSides = Math.round(sides);
+      warning("polygonSides", `Sides are rounded to ${next.polygonSides}.`);
+    }
+  }
+
+  if (sized.thicknessMode === "uniform") {
+    checkThickness("thickness", "Thickness");
+  } else {
+    checkThickness("wallThickness", "Wall thickness");
+    checkThickness("bottomThickness", "Bottom thickness");
+    checkThickness("topThickness", "Top thickness", true);
+  }
+
+  if ((isBox || isPolygon) && sized.includeInsideRadius) {
+    const radius = sized.insideRadius;
+    if (!Number.isFinite(radius)) {
+      error("insideRadius", "Inside radius must be a number.");
+    } else if (radius < 0) {
+      error("insideRadius", "Inside radius cannot be negative.");
+    } else if ((widthOk && depthOk) || flatsOk) {
+      const limit = isPolygon
+        ? sized.insideAcrossFlats / 2
+        : Math.min(sized.insideWidth, sized.insideDepth) / 2;
+      const maxRadius = Math.max(0, limit - radiusMargin);
+      if (radius > maxRadius) {
+        next.insideRadius = roundTo(maxRadius);
+        warning(
+          "insideRadius",
+          isPolygon
+            ? `Inside radius is limited to ${roundTo(maxRadius, 2)} mm by the across-flats size.`
+            : `Inside radius is limited to ${roundTo(maxRadius, 2)} mm by the inside width and depth.`
+        );
+      }
+    }
+  }
+};
+
+// Clearance, and the plug and sliding lids that sit in or on the walls.
+const validateLidFit = ({
+  sized,
+  error,
+  warning,
+  requirePositive,
+  checkThickness
+}: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+
+  // Hinged and screw-top lids have clearances of their own.
+  const usesClearance = sized.lidStyle !== "hinge" && sized.lidStyle !== "screw";
+  if (sized.includeLid && usesClearance) {
+    const clearance = sized.clearance;
+    if (!Number.isFinite(clearance)) {
+      error("clearance", "Clearance must be a number.");
+    } else if (clearance < 0) {
+      error("clearance", "Clearance cannot be negative.");
+    } else if (clearance === 0) {
+      warning("clearance", "With no clearance the lid will not slide over the box.");
+    }
+  }
+
+  if (sized.includeLid && sized.lidStyle === "plug") {
+    if (sized.thicknessMode === "custom" && sized.topThickness === 0) {
+      error("topThickness", "A plug lid needs a top thickness above 0 mm.");
+    }
+    if (requirePositive("lipDepth", "Lip depth") && sized.lipDepth > sized.insideHeight) {
+      error("lipDepth", "Lip depth cannot exceed the inside height.");
+    }
+    checkThickness("lipThickness", "Lip thickness");
+    const span = insideSpan(sized);
+    const lipSpan = (Math.max(0, sized.clearance) + sized.lipThickness) * 2;
+    if (Number.isFinite(span) && span > 0 && lipSpan >= span) {
+      error("lipThickness", "Lip is too thick for the box opening.");
+    }
+  }
+
+  if (sized.includeLid && sized.lidStyle === "slide") {
+    if (!isBox) {
+      error("lidStyle", "Sliding lids are only available for the box shape.");
+    }
+    const wall =
+      sized.thicknessMode === "uniform" ? sized.thickness : sized.wallThickness;
+    if (
+      requirePositive("slideGrooveDepth", "Groove depth") &&
+      sized.slideGrooveDepth >= wall
+    ) {
+      error("slideGrooveDepth", "Groove depth must be less than the wall thickness.");
+    }
+    checkThickness("slideLidThickness", "Lid thickness");
+  }
+};
+
+// Hinge knuckles have to fit along the wall and clear the lid and the bed.
+const validateHinge = ({ sized, next, error, warning, requirePositive }: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+
+  if (!sized.includeLid || sized.lidStyle !== "hinge") {
+    return;
+  }
+  if (!isBox) {
+    error("lidStyle", "Hinged lids are only available for the box shape.");
+  }
+  if (sized.thicknessMode === "custom" && sized.topThickness === 0) {
+    error("topThickness", "A hinged lid needs a top thickness above 0 mm.");
+  }
+  const knuckles = sized.hingeKnuckles;
+  if (!Number.isFinite(knuckles)) {
+    error("hingeKnuckles", "Knuckles must be a number.");
+  } else if (knuckles < 2) {
+    error("hingeKnuckles", "A hinge needs at least 2 knuckles.");
+  } else if (!Number.isInteger(knuckles)) {
+    next.hingeKnuckles = Math.round(knuckles);
+    warning("hingeKnuckles", `Knuckles are rounded to ${next.hingeKnuckles}.`);
+  }
+  const pinOk = requirePositive("hingePinDiameter", "Pin diameter");
+  const clearanceOk = requirePositive("hingeClearance", "Hinge clearance");
+  if (isBox && pinOk && clearanceOk && knuckles >= 2) {
+    const hinge = hingeGeometry(next);
+    if (hinge.segment < 1) {
+      error("hingeKnuckles", "Too many knuckles for the length of the hinge.");
+    }
+    // The box knuckles must stay clear of the closed lid and the lid
+    // knuckles clear of the bed once it is swung open.
+    if (hinge.knuckleRadius + next.hingeClearance > hinge.rimZ - hinge.axisZ) {
+      error(
+        "hingePinDiameter",
+        "The box is too shallow for this hinge; use a smaller pin or a taller box."
+      );
+    }
+  }
+};
+
+// The thread has to suit its pitch and fit the height of the box.
+const validateScrewTop = ({ sized, error, requirePositive }: FeatureChecks) => {
+  if (!sized.includeLid || sized.lidStyle !== "screw") {
+    return;
+  }
+  if (sized.shape !== "cylinder") {
+    error("lidStyle", "Screw-top lids are only available for the cylinder shape.");
+  }
+  if (sized.thicknessMode === "custom" && sized.topThickness === 0) {
+    error("topThickness", "A screw-top lid needs a top thickness above 0 mm.");
+  }
+  const pitchOk = requirePositive("threadPitch", "Thread pitch");
+  let turnsOk = requirePositive("threadTurns", "Turns");
+  if (turnsOk && sized.threadTurns < 1) {
+    error("threadTurns", "Use at least one turn of thread.");
+    turnsOk = false;
+  }
+  const depthOk = requirePositive("threadDepth", "Thread depth");
+  const clearanceOk = requirePositive("threadClearance", "Thread clearance");
+  if (pitchOk && depthOk && clearanceOk && threadGeometry(sized).crest < 0.1) {
+    error("threadDepth", "Thread is too deep for its pitch and clearance.");
+  }
+  if (pitchOk && turnsOk) {
+    const thread = threadGeometry(sized);
+    if (thread.skirt > thread.rimZ) {
+      error("threadTurns", "The box is too short for this many turns.");
+    }
+  }
+};
+
+// Dividers need whole counts and room left for every compartment.
+const validateDividers = ({
+  sized,
+  next,
+  error,
+  warning,
+  requirePositive,
+  checkThickness,
+  boxSizeOk
+}: FeatureChecks) => {
+  if (!hasDividers(sized)) {
+    return;
+  }
+  const checkCount = (field: "dividerRows" | "dividerColumns", label: string) => {
+    const value = sized[field];
+    if (!Number.isFinite(value)) {
+      error(field, `${label} must be a number.`);
+      return false;
+    }
+    if (value < 1) {
+      error(field, `${label} must be at least 1.`);
+      return false;
+    }
+    if (!Number.isInteger(value)) {
+      next[field] = Math.round(value);
+      warning(field, `${label} are rounded to ${next[field]}.`);
+    }
+    return true;
+  };
+  const rowsOk = checkCount("dividerRows", "Rows");
+  const columnsOk = checkCount("dividerColumns", "Columns");
+  checkThickness("dividerThickness", "Divider thickness");
+  const thicknessOk =
+    Number.isFinite(sized.dividerThickness) && sized.dividerThickness > 0;
+  if (!sized.dividerFullHeight && requirePositive("dividerHeight", "Divider height")) {
+    if (sized.dividerHeight > sized.insideHeight) {
+      error("dividerHeight", "Divider height cannot exceed the inside height.");
+    }
+  }
+  const widths = parseColumnWidths(sized.dividerColumnWidths);
+  let widthsOk = true;
+  if (widths.some((width) => !Number.isFinite(width) || width <= 0)) {
+    error("dividerColumnWidths", "Column widths must be positive numbers.");
+    widthsOk = false;
+  } else if (widths.length > 0 && widths.length !== next.dividerColumns) {
+    error("dividerColumnWidths", "Give one column width per column.");
+    widthsOk = false;
+  }
+  if (rowsOk && columnsOk && thicknessOk && widthsOk && boxSizeOk) {
+    const layout = dividerLayout(next);
+    const cells = [...layout.columns, ...layout.rows];
+    if (cells.some((cell) => cell.size < 1)) {
+      error("dividerThickness", "Dividers leave no room for the compartments.");
+    }
+    const lipBottom = sized.insideHeight - sized.lipDepth;
+    if (sized.includeLid && sized.lidStyle === "plug" && layout.height > lipBottom) {
+      error(
+        sized.dividerFullHeight ? "dividerFullHeight" : "dividerHeight",
+        "Dividers would run into the plug lid lip; lower them below the lip."
+      );
+    }
+  }
+};
+
+// Snap bumps have to reach past the clearance without cutting through the wall.
+const validateSnapDetents = ({
+  sized,
+  next,
+  error,
+  warning,
+  requirePositive,
+  boxSizeOk
+}: FeatureChecks) => {
+  if (!hasSnapDetents(sized)) {
+    return;
+  }
+  const bumps = sized.snapBumpsPerSide;
+  if (!Number.isFinite(bumps)) {
+    error("snapBumpsPerSide", "Bumps per side must be a number.");
+  } else if (bumps < 1) {
+    error("snapBumpsPerSide", "Use at least 1 bump per side.");
+  } else if (!Number.isInteger(bumps)) {
+    next.snapBumpsPerSide = Math.round(bumps);
+    warning("snapBumpsPerSide", `Bumps per side are rounded to ${next.snapBumpsPerSide}.`);
+  }
+  const { wall, bottom } = resolveThickness(sized);
+  const heightOk = requirePositive("snapBumpHeight", "Bump height");
+  if (heightOk && sized.snapBumpHeight >= wall) {
+    error("snapBumpHeight", "Bump height must be less than the wall thickness.");
+  } else if (heightOk && sized.snapBumpHeight <= sized.clearance) {
+    warning("snapBumpHeight", "Bumps no taller than the clearance will not hold the lid.");
+  }
+  if (requirePositive("snapEngagement", "Engagement height") && heightOk) {
+    const rimZ = sized.insideHeight + bottom;
+    if (
+      sized.snapEngagement < sized.snapBumpHeight ||
+      sized.snapEngagement + sized.snapBumpHeight > rimZ
+    ) {
+      error("snapEngagement", "Bumps must sit between the bottom and the rim of the box.");
+    }
+  }
+  if (bumps >= 1 && boxSizeOk) {
+    const shortest = Math.min(sized.insideWidth, sized.insideDepth) + wall * 2;
+    if (snapLayout(next, shortest).length < 0.5) {
+      error("snapBumpsPerSide", "Too many bumps for the length of the walls.");
+    }
+  }
+};
+
+// Fillets and chamfers have to fit inside the material they cut: the floor
+// and wall at the bottom, both faces of the wall at the rim, and the lid
+// plate.
+const validateBlends = ({ sized, next, error, warning }: FeatureChecks) => {
+  const { wall, top, bottom } = resolveThickness(sized);
+  const lidPlate =
+    sized.lidStyle === "slide" ? sized.slideLidThickness : Math.min(top, wall);
+  const checkBlend = (
+    field: "bottomFillet" | "rimFillet" | "lidFillet" | "bottomChamfer" | "lidLeadIn",
+    label: string,
+    limit: number,
+    reason: string
+  ) => {
+    const size = sized[field];
+    if (!Number.isFinite(size)) {
+      error(field, `${label} must be a number.`);
+    } else if (size < 0) {
+      error(field, `${label} cannot be negative.`);
+    } else if (size === 0) {
+      return;
+    } else if (limit <= radiusMargin * 2) {
+      error(field, `${label} needs more ${reason}.`);
+    } else if (size > limit - radiusMargin) {
+      next[field] = roundTo(limit - radiusMargin);
+      warning(field, `${label} is limited to ${roundTo(next[field], 2)} mm by the ${reason}.`);
+    }
+  };
+  if (isGridfinity(sized) && sized.bottomFillet > 0) {
+    next.bottomFillet = 0;
+    warning("bottomFillet", "Gridfinity bins use the stepped base instead of a bottom fillet.");
+  } else {
+    checkBlend("bottomFillet", "Bottom fillet", Math.min(wall, bottom), "wall and bottom thickness");
+  }
+  checkBlend("rimFillet", "Rim fillet", wall / 2, "wall thickness");
+  if (sized.includeLid) {
+    checkBlend("lidFillet", "Lid fillet", lidPlate, "lid thickness");
+  }
+
+  // The chamfer shares the bottom edges with the fillet, and on sleeve and
+  // screw lids shares the rim of the opening with the lead-in.
+  if (sized.bottomChamfer > 0 && sized.bottomFillet > 0) {
+    error("bottomChamfer", "Use either a bottom fillet or a bottom chamfer.");
+  } else if (
+    sized.bottomChamfer > 0 &&
+    sized.lidFillet > 0 &&
+    sized.includeLid &&
+    sized.lidStyle === "hinge" &&
+    sized.hingeLayout === "open"
+  ) {
+    error(
+      "bottomChamfer",
+      "The open hinged lid lies on its top; use either a lid fillet or a bottom chamfer."
+    );
+  } else {
+    checkBlend(
+      "bottomChamfer",
+      "Bottom chamfer",
+      Math.min(wall, bottom),
+      "wall and bottom thickness"
+    );
+    if (isGridfinity(sized) && sized.bottomChamfer > 0) {
+      warning(
+        "bottomChamfer",
+        "Gridfinity feet are already chamfered; the bottom chamfer only applies to the lid."
+      );
+    }
+  }
+  if (hasLidLeadIn(sized)) {
+    const chamfer = Math.max(0, next.bottomChamfer);
+    checkBlend(
+      "lidLeadIn",
+      "Lead-in chamfer",
+      wall - chamfer,
+      "lid wall left beside the bottom chamfer"
+    );
+  }
+};
+
+// The label has to fit on its face, stay clear of a lid sliding over the
+// walls, and when debossed leave a printable skin behind the letters.
+const validateLabel = ({ sized, error, warning, requirePositive }: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+  const { wall, top } = resolveThickness(sized);
+
+  if (sized.labelText.trim() !== "" && !hasLabel(sized)) {
+    warning("labelFace", "The label is on the lid; turn the lid on or pick a wall.");
+  }
+  if (hasLabel(sized)) {
+    const onLid = sized.labelFace === "lid";
+    const missing = missingGlyphs(sized.labelText);
+    if (missing.length) {
+      error(
+        "labelText",
+        `The label font cannot draw ${missing.map((char) => `"${char}"`).join(", ")}.`
+      );
+    }
+    const sizeOk = requirePositive("labelSize", "Label size");
+    const depthOk = requirePositive("labelDepth", "Label depth");
+    if (!onLid && !isBox) {
+      error("labelFace", "Wall labels are only available for the box shape.");
+    } else if (
+      !onLid &&
+      sized.includeLid &&
+      sized.lidStyle === "hinge" &&
+      sized.labelFace === sized.hingeSide
+    ) {
+      error("labelFace", "The hinge is on that wall; pick another face for the label.");
+    } else if (
+      !onLid &&
+      sized.labelMode === "emboss" &&
+      sized.includeLid &&
+      sized.lidStyle === "sleeve"
+    ) {
+      error("labelMode", "The sleeve lid slides down over the walls; deboss wall labels instead.");
+    } else if (
+      onLid &&
+      sized.labelMode === "emboss" &&
+      sized.lidStyle === "hinge" &&
+      sized.hingeLayout === "open"
+    ) {
+      error("labelMode", "The open hinged lid prints on its top; deboss the label instead.");
+    }
+    const skin = onLid ? (sized.lidStyle === "slide" ? sized.slideLidThickness : top) : wall;
+    const debossed = sized.labelMode === "deboss";
+    if (depthOk && debossed && sized.labelDepth > skin - minPrintableThickness) {
+      const behind = onLid ? "lid" : "wall";
+      error(
+        "labelDepth",
+        `A debossed label must leave at least ${minPrintableThickness} mm of ${behind} behind it.`
+      );
+    }
+    if (sizeOk && !missing.length) {
+      const text = layoutText(sized.labelText, sized.labelSize);
+      const span = labelFaceSpan(sized);
+      const fits = span.round
+        ? Math.hypot(text.width, text.height) <= span.width
+        : text.width <= span.width && text.height <= span.height;
+      if (!fits) {
+        error("labelSize", "The label does not fit on its face; use a smaller size or shorter text.");
+      }
+    }
+  }
+};
+
+// Cutouts have to stay on the straight part of their wall, between the
+// floor and the rim, and clear of the closed lid.
+const validateCutouts = ({ sized, error }: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+  const { wall, bottom } = resolveThickness(sized);
+  const coverStart = lidCoverStart(sized);
+  const covered: Partial<Record<LidStyle, string>> = {
+    sleeve: "is covered by the sleeve lid; use a plug or hinged lid with wall cutouts.",
+    screw: "is covered by the screw-top lid skirt.",
+    plug: "is behind the plug lid lip; move it below the lip.",
+    slide: "runs into the lid grooves; keep it below the rim."
+  };
+
+  if (sized.cutouts.length && !isBox) {
+    error("cutouts", "Wall cutouts are only available for the box shape.");
+  } else {
+    const corner = sized.includeInsideRadius ? sized.insideRadius + wall : wall;
+    sized.cutouts.forEach((cutout, index) => {
+      const name = `Cutout ${index + 1}`;
+      const height = cutoutHeight(cutout);
+      if (!(cutout.width > 0) || !(height > 0)) {
+        error("cutouts", `${name} must be larger than 0 mm.`);
+        return;
+      }
+      if (!Number.isFinite(cutout.x) || !Number.isFinite(cutout.y)) {
+        error("cutouts", `${name} needs a position.`);
+        return;
+      }
+      if (sized.includeLid && sized.lidStyle === "hinge" && cutout.wall === sized.hingeSide) {
+        error("cutouts", `${name} is on the hinge wall.`);
+        return;
+      }
+      const { u, z, length, rim } = cutoutCenter(sized, cutout);
+      if (u - cutout.width / 2 < corner || u + cutout.width / 2 > length - corner) {
+        error("cutouts", `${name} runs into the corner of the box.`);
+      }
+      if (z - height / 2 < bottom) {
+        error("cutouts", `${name} crosses the floor.`);
+      }
+      if (coverStart !== null && z + height / 2 > coverStart) {
+        error("cutouts", `${name} ${covered[sized.lidStyle] ?? "is covered by the lid."}`);
+      } else if (z + height / 2 > rim) {
+        error("cutouts", `${name} crosses the rim.`);
+      }
+    });
+  }
+};
+
+// The stacking foot steps in by the wall and the clearance all round, and
+// needs a rim to drop into on the box or lid below.
+const validateStacking = ({ sized, error, requirePositive }: FeatureChecks) => {
+  if (sized.stackable) {
+    if (isGridfinity(sized)) {
+      error("stackable", "Gridfinity bins stack on the grid; turn stacking off.");
+    } else if (sized.includeLid && sized.lidStyle === "slide") {
+      error("stackable", "A sliding lid sits flush with the walls, leaving no rim to stack on.");
+    } else if (
+      sized.includeLid &&
+      sized.lidStyle === "hinge" &&
+      sized.hingeLayout === "open"
+    ) {
+      error("stackable", "Export the hinged lid closed to give it a stacking rim.");
+    }
+    requirePositive("stackStepHeight", "Step height");
+    if (!Number.isFinite(sized.stackClearance) || sized.stackClearance < 0) {
+      error("stackClearance", "Stacking clearance cannot be negative.");
+    } else if (sized.stackClearance * 2 >= insideSpan(sized)) {
+      error("stackClearance", "Stacking clearance leaves no foot.");
+    }
+    if (
+      hasLabel(sized) &&
+      sized.labelFace === "lid" &&
+      sized.labelMode === "emboss" &&
+      sized.labelDepth > sized.stackStepHeight
+    ) {
+      error("labelDepth", "An embossed lid label taller than the step height holds up the box above.");
+    }
+  }
+};
+
+// Magnet pockets must stay inside the corner of the wall and the lid top,
+// ideally with a printable skin left around them.
+const validateMagnets = ({ sized, error, warning, requirePositive }: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+  const { top } = resolveThickness(sized);
+
+  if (sized.magnetPockets && !hasMagnetPockets(sized)) {
+    if (!sized.includeLid) {
+      warning("magnetPockets", "Magnet pockets pair the box with its lid; turn the lid on.");
+    } else if (!isBox) {
+      error("magnetPockets", "Magnet pockets are only available for the box shape.");
+    } else {
+      error("magnetPockets", "Magnet pockets need a lid that rests on the rim.");
+    }
+  }
+  if (hasMagnetPockets(sized)) {
+    const diameterOk = requirePositive("magnetDiameter", "Magnet diameter");
+    const depthOk = requirePositive("magnetDepth", "Magnet depth");
+    if (diameterOk) {
+      const { skin } = magnetLayout(sized);
+      if (skin <= 0) {
+        error(
+          "magnetDiameter",
+          `${roundTo(sized.magnetDiameter, 2)} mm magnets do not fit in the corners of walls this thin.`
+        );
+      } else if (skin < minPrintableThickness) {
+        warning(
+          "magnetDiameter",
+          `The walls are thin for ${roundTo(sized.magnetDiameter, 2)} mm magnets; only ${roundTo(skin, 2)} mm of wall is left beside the pockets.`
+        );
+      }
+    }
+    if (depthOk && sized.magnetDepth >= sized.insideHeight) {
+      error("magnetDepth", "Magnet pockets are deeper than the box walls are tall.");
+    }
+    if (depthOk && sized.magnetDepth >= top) {
+      error("magnetDepth", "Magnet pockets would break through the lid top.");
+    } else if (depthOk && top - sized.magnetDepth < minPrintableThickness) {
+      warning(
+        "magnetDepth",
+        `Magnet pockets leave less than ${minPrintableThickness} mm of lid top above them.`
+      );
+    }
+  }
+};
+
+// Standoffs have to stand clear of the walls and below the lid, with a
+// printable wall left around the screw hole and the insert bore.
+const validateStandoffs = ({ sized, error, requirePositive, boxSizeOk }: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+  const { wall } = resolveThickness(sized);
+
+  if (sized.standoffPattern !== "none" && !isBox) {
+    error("standoffPattern", "Standoffs are only available for the box shape.");
+  }
+  if (hasStandoffs(sized)) {
+    let patternOk = true;
+    if (sized.standoffPattern === "pitch") {
+      const pitchXOk = requirePositive("standoffPitchX", "Pitch across the width");
+      const pitchYOk = requirePositive("standoffPitchY", "Pitch across the depth");
+      patternOk = pitchXOk && pitchYOk;
+    } else {
+      const holes = parseStandoffHoles(sized.standoffHoles);
+      if (!holes.length) {
+        error("standoffHoles", "Enter at least one standoff hole as x,y.");
+        patternOk = false;
+      } else if (holes.some(([x, y]) => !Number.isFinite(x) || !Number.isFinite(y))) {
+        error("standoffHoles", "Give each standoff hole as x,y, separated by semicolons.");
+        patternOk = false;
+      }
+    }
+    const diameterOk = requirePositive("standoffDiameter", "Standoff diameter");
+    const heightOk = requirePositive("standoffHeight", "Standoff height");
+    const screwOk = requirePositive("standoffScrewDiameter", "Screw hole diameter");
+    const boss = sized.standoffDiameter - minPrintableThickness * 2;
+    if (diameterOk && screwOk && sized.standoffScrewDiameter > boss) {
+      error(
+        "standoffScrewDiameter",
+        `Screw holes must leave at least ${minPrintableThickness} mm of standoff wall.`
+      );
+    }
+    if (sized.standoffInsert) {
+      const insertOk = requirePositive("standoffInsertDiameter", "Insert bore diameter");
+      const insertDepthOk = requirePositive("standoffInsertDepth", "Insert bore depth");
+      if (insertOk && screwOk && sized.standoffInsertDiameter <= sized.standoffScrewDiameter) {
+        error("standoffInsertDiameter", "The insert bore must be wider than the screw hole.");
+      } else if (insertOk && diameterOk && sized.standoffInsertDiameter > boss) {
+        error(
+          "standoffInsertDiameter",
+          `The insert bore must leave at least ${minPrintableThickness} mm of standoff wall.`
+        );
+      }
+      if (insertDepthOk && heightOk && sized.standoffInsertDepth > sized.standoffHeight) {
+        error("standoffInsertDepth", "The insert bore is deeper than the standoffs are tall.");
+      }
+    }
+    if (heightOk && sized.standoffHeight >= sized.insideHeight) {
+      error("standoffHeight", "Standoffs must be shorter than the inside height.");
+    } else if (
+      heightOk &&
+      sized.includeLid &&
+      sized.lidStyle === "plug" &&
+      sized.standoffHeight > sized.insideHeight - sized.lipDepth
+    ) {
+      error("standoffHeight", "Standoffs would run into the plug lid lip; make them shorter.");
+    }
+    if (patternOk && diameterOk && boxSizeOk) {
+      const radius = sized.standoffDiameter / 2;
+      const inside = (value: number, span: number) =>
+        value - radius >= wall && value + radius <= wall + span;
+      const fits = standoffCenters(sized).every(
+        ([x, y]) => inside(x, sized.insideWidth) && inside(y, sized.insideDepth)
+      );
+      if (!fits) {
+        error(
+          sized.standoffPattern === "pitch" ? "standoffPitchX" : "standoffHoles",
+          "Standoffs run into the walls; the hole pattern is too large for the floor."
+        );
+      }
+    }
+  }
+};
+
+// Keyholes need a face they can hang from and room for their pads, which
+// must not run into each other, the corners, the floor or the rim.
+const validateKeyholes = ({
+  sized,
+  next,
+  error,
+  warning,
+  requirePositive,
+  boxSizeOk
+}: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+
+  if (sized.keyholeFace !== "none" && !isBox) {
+    error("keyholeFace", "Keyhole slots are only available for the box shape.");
+  }
+  if (hasKeyholes(sized)) {
+    const onFloor = sized.keyholeFace === "floor";
+    if (onFloor && (isGridfinity(sized) || isStackable(sized))) {
+      error("keyholeFace", "The floor is shaped into feet; put the keyholes in the back wall.");
+    } else if (
+      !onFloor &&
+      sized.includeLid &&
+      sized.lidStyle === "hinge" &&
+      sized.hingeSide === "back"
+    ) {
+      error("keyholeFace", "The hinge is on the back wall; put the keyholes in the floor.");
+    } else if (!onFloor && sized.includeLid && sized.lidStyle === "sleeve") {
+      error("keyholeFace", "The sleeve lid slides over the back wall; put the keyholes in the floor.");
+    }
+    const count = sized.keyholeCount;
+    let countOk = true;
+    if (!Number.isFinite(count) || count < 1) {
+      error("keyholeCount", "Use at least 1 keyhole.");
+      countOk = false;
+    } else if (!Number.isInteger(count)) {
+      next.keyholeCount = Math.round(count);
+      warning("keyholeCount", `Keyholes are rounded to ${next.keyholeCount}.`);
+    }
+    const spacingOk =
+      Math.round(count) < 2 || requirePositive("keyholeSpacing", "Keyhole spacing");
+    const headOk = requirePositive("keyholeHeadDiameter", "Head diameter");
+    const shankOk = requirePositive("keyholeShankWidth", "Shank width");
+    const slotOk = requirePositive("keyholeSlotLength", "Slot length");
+    requirePositive("keyholeReinforcement", "Reinforcement thickness");
+    if (headOk && shankOk && sized.keyholeShankWidth >= sized.keyholeHeadDiameter) {
+      error("keyholeShankWidth", "The shank slot must be narrower than the head hole.");
+    }
+    if (countOk && spacingOk && headOk && slotOk && boxSizeOk) {
+      const layout = keyholeLayout(sized);
+      const first = layout.positions[0] - layout.padWidth / 2;
+      const last = layout.positions[layout.positions.length - 1] + layout.padWidth / 2;
+      if (layout.positions.length > 1 && sized.keyholeSpacing < layout.padWidth) {
+        error(
+          "keyholeSpacing",
+          `Keyholes need at least ${roundTo(layout.padWidth, 2)} mm between them for their reinforcement.`
+        );
+      } else if (first < layout.corner || last > layout.length - layout.corner) {
+        error("keyholeSpacing", "Keyholes run into the corners; use fewer or space them closer.");
+      }
+      if (layout.padLength > layout.span) {
+        error(
+          "keyholeSlotLength",
+          onFloor
+            ? "Keyholes do not fit across the floor."
+            : "Keyholes do not fit between the floor and the rim."
+        );
+      }
+    }
+  }
+};
+
+// Vents need a web between holes that will print, and at least one hole
+// inside the margin.
+const validateVents = ({ sized, error, warning, requirePositive }: FeatureChecks) => {
+  const isBox = sized.shape === "box";
+
+  if (sized.ventPattern !== "none" && !hasVents(sized)) {
+    warning("ventFace", "The vents are on the lid; turn the lid on or pick a wall.");
+  }
+  if (hasVents(sized)) {
+    const pitchOk = requirePositive("ventPitch", "Vent pitch");
+    const sizeOk = requirePositive("ventHoleSize", "Vent hole size");
+    if (!Number.isFinite(sized.ventMargin) || sized.ventMargin < 0) {
+      error("ventMargin", "Vent margin cannot be negative.");
+    }
+    if (!Number.isFinite(sized.ventBorder) || sized.ventBorder < 0) {
+      error("ventBorder", "Vent border cannot be negative.");
+    } else if (sized.ventBorder < minPrintableThickness) {
+      warning(
+        "ventBorder",
+        `A vent border below ${minPrintableThickness} mm may not print reliably.`
+      );
+    }
+    if (sized.ventFace !== "lid" && !isBox) {
+      error("ventFace", "Wall vents are only available for the box shape.");
+    } else if (
+      sized.ventFace !== "lid" &&
+      sized.includeLid &&
+      sized.lidStyle === "hinge" &&
+      sized.ventFace === sized.hingeSide
+    ) {
+      error("ventFace", "The hinge is on that wall; pick another face for the vents.");
+    } else if (sized.ventFace !== "lid" && sized.includeLid && sized.lidStyle === "sleeve") {
+      error("ventFace", "The sleeve lid slides over the walls; put the vents in the lid instead.");
+    }
+    if (pitchOk && sizeOk && sized.ventPitch - sized.ventHoleSize < sized.ventBorder) {
+      error(
+        "ventPitch",
+        `Vent pitch must be at least the hole size plus the ${roundTo(sized.ventBorder, 2)} mm border.`
+      );
+    } else if (pitchOk && sizeOk && sized.ventMargin >= 0 && !ventLayout(sized).holes.length) {
+      error("ventHoleSize", "No vent holes fit inside the margin.");
+    }
+  }
+};
+
+// Run in this order; later checks may read corrections made by earlier ones.
+const featureValidators = [
+  validateBody,
+  validateLidFit,
+  validateHinge,
+  validateScrewTop,
+  validateDividers,
+  validateSnapDetents,
+  validateBlends,
+  validateLabel,
+  validateCutouts,
+  validateStacking,
+  validateMagnets,
+  validateStandoffs,
+  validateKeyholes,
+  validateVents
+];
+
+export const validateParams = (params: ShapeParams): ParamValidation => {
+  const checks = paramChecks(params);
+  validateGridfinitySize(params, checks);
+  validateOutsideSize(params, checks);
+
+  // The remaining checks read the sizes the part is built at, including any
+  // derived above; corrections still go into `next`.
+  const sized: ShapeParams = { ...checks.next };
+  const features: FeatureChecks = {
+    ...checks,
+    sized,
+    boxSizeOk:
+      sized.shape === "box" && isPositive(sized.insideWidth) && isPositive(sized.insideDepth)
+  };
+  featureValidators.forEach((validate) => validate(features));
+
+  return {
+    params: checks.next,
+    issues: checks.issues,
+    hasErrors: checks.issues.some((issue) => issue.severity === "error")
+  };
+};
+
+export const formatParamErrors = (validation: ParamValidation) =>
+  validation.issues
+    .filter((issue) => issue.severity === "error")
+    .map((issue) => issue.message)
+    .join(" ");
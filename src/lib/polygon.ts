@@ -0,0 +1,95 @@
+export type Point2 = [number, number];
+
+export type PolygonCorner = {
+  start: Point2;
+  mid: Point2;
+  end: Point2;
+  center: Point2;
+};
+
+export const minPolygonSides = 3;
+export const maxPolygonSides = 12;
+
+export const polygonApothem = (acrossFlats: number) => acrossFlats / 2;
+
+export const polygonCircumradius = (sides: number, acrossFlats: number) =>
+  polygonApothem(acrossFlats) / Math.cos(Math.PI / sides);
+
+// Corners of a regular polygon centred on the origin with one flat facing -Y,
+// listed counter-clockwise. Each corner is rounded with `radius`; a radius of
+// 0 collapses start, mid and end onto the sharp vertex. The radius must stay
+// below the apothem or the flats disappear.
+export const regularPolygonCorners = (
+  sides: number,
+  acrossFlats: number,
+  radius: number
+): PolygonCorner[] => {
+  const circumradius = polygonCircumradius(sides, acrossFlats);
+  const halfAngle = Math.PI / sides;
+  const centerDistance = circumradius - radius / Math.cos(halfAngle);
+  const corners: PolygonCorner[] = [];
+  for (let k = 0; k < sides; k += 1) {
+    const angle = -Math.PI / 2 + halfAngle + (2 * Math.PI * k) / sides;
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+    const center: Point2 = [ux * centerDistance, uy * centerDistance];
+    // Tangent points lie where the edge normals either side of the corner
+    // meet the rounding circle.
+    const before = angle - halfAngle;
+    const after = angle + halfAngle;
+    corners.push({
+      start: [
+        center[0] + Math.cos(before) * radius,
+        center[1] + Math.sin(before) * radius
+      ],
+      mid: [center[0] + ux * radius, center[1] + uy * radius],
+      end: [
+        center[0] + Math.cos(after) * radius,
+        center[1] + Math.sin(after) * radius
+      ],
+      center
+    });
+  }
+  return corners;
+};
+
+export const polygonExtents = (
+  sides: number,
+  acrossFlats: number,
+  radius: number
+) => {
+  const corners = regularPolygonCorners(sides, acrossFlats, radius);
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  const halfAngle = Math.PI / sides;
+  const include = ([x, y]: Point2) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  };
+  corners.forEach((corner, k) => {
+    include(corner.start);
+    include(corner.end);
+    // An arc reaches the bounding box wherever it crosses an axis direction.
+    const angle = -Math.PI / 2 + halfAngle + (2 * Math.PI * k) / sides;
+    for (let quarter = 0; quarter < 4; quarter += 1) {
+      const axis = (quarter * Math.PI) / 2;
+      const delta = Math.atan2(Math.sin(axis - angle), Math.cos(axis - angle));
+      if (Math.abs(delta) <= halfAngle) {
+        include([
+          corner.center[0] + Math.cos(axis) * radius,
+          corner.center[1] + Math.sin(axis) * radius
+        ]);
+      }
+    }
+  });
+  return {
+    minX,
+    minY,
+    width: maxX - minX,
+    depth: maxY - minY
+  };
+};
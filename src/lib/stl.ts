@@ -0,0 +1,67 @@
+import type { PreviewMeshData } from "./cad";
+
+const headerBytes = 80;
+const triangleBytes = 50;
+
+export const writeBinaryStl = (meshes: PreviewMeshData[], name = "box") => {
+  const triangleCount = meshes.reduce(
+    (count, mesh) => count + Math.floor(mesh.indices.length / 3),
+    0
+  );
+  const buffer = new ArrayBuffer(headerBytes + 4 + triangleCount * triangleBytes);
+  const view = new DataView(buffer);
+
+  // The header is free-form, but it must not start with "solid" or some
+  // readers treat the file as ASCII STL.
+  const header = `3d-box binary STL: ${name}`.slice(0, headerBytes);
+  for (let i = 0; i < header.length; i += 1) {
+    view.setUint8(i, header.charCodeAt(i) & 0x7f);
+  }
+  view.setUint32(headerBytes, triangleCount, true);
+
+  let offset = headerBytes + 4;
+  meshes.forEach(({ positions, indices }) => {
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      const a = indices[i] * 3;
+      const b = indices[i + 1] * 3;
+      const c = indices[i + 2] * 3;
+      const ux = positions[b] - positions[a];
+      const uy = positions[b + 1] - positions[a + 1];
+      const uz = positions[b + 2] - positions[a + 2];
+      const vx = positions[c] - positions[a];
+      const vy = positions[c + 1] - positions[a + 1];
+      const vz = positions[c + 2] - positions[a + 2];
+      let nx = uy * vz - uz * vy;
+      let ny = uz * vx - ux * vz;
+      let nz = ux * vy - uy * vx;
+      const length = Math.hypot(nx, ny, nz);
+      if (length > 0) {
+        nx /= length;
+        ny /= length;
+        nz /= length;
+      }
+
+      const values = [
+        nx,
+        ny,
+        nz,
+        positions[a],
+        positions[a + 1],
+        positions[a + 2],
+        positions[b],
+        positions[b + 1],
+        positions[b + 2],
+        positions[c],
+        positions[c + 1],
+        positions[c + 2]
+      ];
+      values.forEach((value, index) => {
+        view.setFloat32(offset + index * 4, value, true);
+      });
+      view.setUint16(offset + 48, 0, true);
+      offset += triangleBytes;
+    }
+  });
+
+  return new Uint8Array(buffer);
+};
@@ -0,0 +1,109 @@
+import type { PreviewMeshData } from "./cad";
+import { rowOffsets, weldMesh } from "./mesh";
+import { writeZip } from "./zip";
+
+export type ThreeMfPart = {
+  name: string;
+  mesh: PreviewMeshData;
+};
+
+const paramsNamespace = "urn:3d-box:params";
+
+const contentTypes = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const relationships = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 1e5) / 1e5;
+  return Object.is(rounded, -0) ? "0" : rounded.toString();
+};
+
+const writeObject = (id: number, part: ThreeMfPart) => {
+  const mesh = weldMesh(part.mesh);
+  const lines: string[] = [];
+  lines.push(`    <object id="${id}" name="${escapeXml(part.name)}" type="model">`);
+  lines.push("      <mesh>");
+  lines.push("        <vertices>");
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    lines.push(
+      `          <vertex x="${formatNumber(mesh.positions[i])}" y="${formatNumber(
+        mesh.positions[i + 1]
+      )}" z="${formatNumber(mesh.positions[i + 2])}"/>`
+    );
+  }
+  lines.push("        </vertices>");
+  lines.push("        <triangles>");
+  for (let i = 0; i + 2 < mesh.indices.length; i += 3) {
+    lines.push(
+      `          <triangle v1="${mesh.indices[i]}" v2="${mesh.indices[i + 1]}" v3="${
+        mesh.indices[i + 2]
+      }"/>`
+    );
+  }
+  lines.push("        </triangles>");
+  lines.push("      </mesh>");
+  lines.push("    </object>");
+  return lines.join("\n");
+};
+
+// Builds a 3MF package with one object per part. Build items carry a
+// translation so the parts sit side by side on the plate instead of nested,
+// unless `arrange` is false and the parts are already placed together.
+// Custom metadata goes under the `params:` namespace, as the spec requires
+// for names that are not part of the core vocabulary.
+export const write3mf = (
+  parts: ThreeMfPart[],
+  metadata: Record<string, string> = {},
+  arrange = true
+) => {
+  const offsets = arrange
+    ? rowOffsets(parts.map((part) => part.mesh))
+    : parts.map((): [number, number, number] => [0, 0, 0]);
+  const metadataLines = Object.entries(metadata).map(
+    ([name, value]) =>
+      `  <metadata name="params:${escapeXml(name)}">${escapeXml(value)}</metadata>`
+  );
+
+  const model = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:params="${paramsNamespace}">`,
+    '  <metadata name="Application">3D Box Builder</metadata>',
+    ...metadataLines,
+    "  <resources>",
+    ...parts.map((part, index) => writeObject(index + 1, part)),
+    "  </resources>",
+    "  <build>",
+    ...parts.map((_, index) => {
+      const [x, y, z] = offsets[index];
+      return `    <item objectid="${index + 1}" transform="1 0 0 0 1 0 0 0 1 ${formatNumber(
+        x
+      )} ${formatNumber(y)} ${formatNumber(z)}"/>`;
+    }),
+    "  </build>",
+    "</model>",
+    ""
+  ].join("\n");
+
+  return writeZip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: relationships },
+    { name: "3D/3dmodel.model", data: model }
+  ]);
+};
@@ -7,5 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ["opencascade.js"]
   },
-  assetsInclude: ["**/*.wasm"]
+  assetsInclude: ["**/*.wasm"],
+  worker: {
+    format: "es"
+  }
 });